@@ -1,15 +1,12 @@
 /**
  * Generate WebSpice schematic from SPICE netlist using ELK layout
+ * Uses the same import as File > Import Netlist in the app.
  * 
  * Usage: pnpm exec tsx scripts/generate-schematic-from-netlist.ts <netlist.cir> [output.json]
  */
 
 import { readFileSync, writeFileSync } from 'fs';
-import { basename } from 'path';
-import ELK from 'elkjs';
-import { parseNetlist } from './lib/netlist-parser.js';
-import { buildElkGraph } from './lib/elk-graph-builder.js';
-import { elkToSchematic } from './lib/elk-to-schematic.js';
+import { importNetlist } from '../src/lib/netlist/netlist-import.js';
 
 async function main() {
   const args = process.argv.slice(2);
@@ -25,51 +22,21 @@ async function main() {
   console.log(`Reading netlist: ${netlistPath}`);
   const netlistText = readFileSync(netlistPath, 'utf-8');
 
-  // Step 1: Parse the netlist
-  console.log('Parsing netlist...');
-  const parsed = parseNetlist(netlistText);
-  console.log(`  Title: ${parsed.title}`);
-  console.log(`  Components: ${parsed.components.length}`);
-  console.log(`  Models: ${parsed.models.size}`);
-  console.log(`  Params: ${parsed.params.size}`);
-
-  // Step 2: Build ELK graph
-  console.log('Building ELK graph...');
-  const elkGraph = buildElkGraph(parsed);
-  console.log(`  Nodes: ${elkGraph.children.length}`);
-  console.log(`  Edges: ${elkGraph.edges.length}`);
-
-  // Step 3: Run ELK layout
-  console.log('Running ELK layout...');
-  const elk = new ELK();
-  const layoutResult = await elk.layout(elkGraph);
-
-  console.log('Layout complete.');
-  
-  // Debug: print node positions
-  if (layoutResult.children) {
-    console.log('\nNode positions:');
-    for (const node of layoutResult.children) {
-      console.log(`  ${node.id}: (${node.x}, ${node.y})`);
-    }
-  }
-
-  // Step 4: Convert to WebSpice schematic
-  console.log('\nConverting to WebSpice schematic...');
-  
-  // Build component lookup map
-  const componentMap = new Map(parsed.components.map(c => [c.name, c]));
-  
-  const schematic = elkToSchematic(
-    layoutResult as any,
-    componentMap
-  );
-
+  console.log('Importing netlist...');
+  const { title, schematic, unmapped } = await importNetlist(netlistText);
+  console.log(`  Title: ${title}`);
   console.log(`  Components: ${schematic.components.length}`);
   console.log(`  Wires: ${schematic.wires.length}`);
   console.log(`  Junctions: ${schematic.junctions.length}`);
+  console.log(`  Net labels: ${schematic.netLabels?.length ?? 0}`);
+
+  if (unmapped.length > 0) {
+    console.log('\nLines not mapped to the schematic:');
+    for (const line of unmapped) {
+      console.log(`  ${line.line}: ${line.text}  (${line.reason})`);
+    }
+  }
 
-  // Step 5: Save output
   const output = {
     version: 1,
     schematic,
@@ -80,22 +47,9 @@ async function main() {
 
   writeFileSync(outputPath, JSON.stringify(output, null, 2));
   console.log(`\nSaved schematic to: ${outputPath}`);
-
-  // Also print some stats about the layout
-  if (layoutResult.children) {
-    const xs = layoutResult.children.map(n => n.x || 0);
-    const ys = layoutResult.children.map(n => n.y || 0);
-    const minX = Math.min(...xs);
-    const maxX = Math.max(...xs);
-    const minY = Math.min(...ys);
-    const maxY = Math.max(...ys);
-    console.log(`\nLayout bounds: (${minX}, ${minY}) to (${maxX}, ${maxY})`);
-    console.log(`Layout size: ${maxX - minX} x ${maxY - minY}`);
-  }
 }
 
 main().catch(err => {
   console.error('Error:', err);
   process.exit(1);
 });
-
@@ -0,0 +1,89 @@
+/**
+ * Round-trip test for LTSpice .asc import and export
+ * 1. .asc -> schematic -> .asc keeps every SYMBOL, SYMATTR, WIRE, FLAG and TEXT line
+ * 2. The re-imported schematic generates the same netlist
+ * 3. A WebSpice schematic saved as .asc and opened again keeps its connectivity
+ *
+ * Usage: pnpm exec tsx scripts/test-asc-roundtrip.ts [input.asc] [schematic.json]
+ */
+
+import { readFileSync } from 'fs';
+import { parseAsc, writeAsc } from '../src/lib/schematic/ltspice.js';
+import { generateNetlist, netlistToText } from '../src/lib/netlist/netlist-generator.js';
+import type { Schematic } from '../src/lib/schematic/types.js';
+
+let failures = 0;
+
+function check(ok: boolean, message: string): void {
+	console.log(`${ok ? '[PASS]' : '[FAIL]'} ${message}`);
+	if (!ok) failures++;
+}
+
+/** Lines that describe the circuit (WINDOW placement and the sheet size are not kept) */
+function circuitLines(text: string): string[] {
+	return text.replace(/\r\n?/g, '\n').split('\n')
+		.map(l => l.trim())
+		.filter(l => /^(SYMBOL|SYMATTR|WIRE|FLAG|TEXT)\s/i.test(l))
+		.map(l => l.toLowerCase())
+		.sort();
+}
+
+/** Element lines with node names replaced by their first-seen order, so numbering does not matter */
+function topology(schematic: Schematic): string[] {
+	const netlist = generateNetlist(schematic);
+	if (netlist.errors.length > 0) {
+		console.log(`   Errors: ${netlist.errors.join('; ')}`);
+	}
+	const names = new Map<string, string>([['0', '0']]);
+	return netlist.components
+		.map(c => {
+			const nodes = c.nodes.map(n => {
+				if (!names.has(n)) names.set(n, `n${names.size}`);
+				return names.get(n)!;
+			});
+			return `${c.name} ${nodes.join(' ')} ${c.value}`;
+		})
+		.sort();
+}
+
+function main() {
+	const ascPath = process.argv[2] || 'static/test-circuits/voltage-multiplier.asc';
+	const jsonPath = process.argv[3] || 'static/examples/rc-lowpass.json';
+
+	console.log(`Round trip: ${ascPath}`);
+	const original = readFileSync(ascPath, 'utf-8');
+	const first = parseAsc(original);
+	for (const warning of first.warnings) {
+		console.log(`   Warning: ${warning}`);
+	}
+	const exported = writeAsc(first.schematic);
+	check(exported.warnings.length === 0, 'Export has no warnings');
+
+	const before = circuitLines(original);
+	const after = circuitLines(exported.text);
+	const missing = before.filter(l => !after.includes(l));
+	const extra = after.filter(l => !before.includes(l));
+	for (const l of missing) console.log(`   Missing: ${l}`);
+	for (const l of extra) console.log(`   Extra:   ${l}`);
+	check(missing.length === 0 && extra.length === 0, `${before.length} circuit lines written back unchanged`);
+
+	const second = parseAsc(exported.text);
+	const netlist1 = netlistToText(generateNetlist(first.schematic));
+	const netlist2 = netlistToText(generateNetlist(second.schematic));
+	check(netlist1 === netlist2, 'Re-imported schematic generates the same netlist');
+	check(generateNetlist(first.schematic).errors.length === 0, 'Imported schematic has no netlist errors');
+
+	console.log(`\nSave as .asc: ${jsonPath}`);
+	const schematic: Schematic = JSON.parse(readFileSync(jsonPath, 'utf-8')).schematic;
+	const reopened = parseAsc(writeAsc(schematic).text).schematic;
+	const expected = topology(schematic);
+	const actual = topology(reopened);
+	for (const line of expected.filter(l => !actual.includes(l))) console.log(`   Expected: ${line}`);
+	for (const line of actual.filter(l => !expected.includes(l))) console.log(`   Got:      ${line}`);
+	check(expected.join('\n') === actual.join('\n'), `${expected.length} elements keep their connections`);
+
+	console.log(failures === 0 ? '\nAll checks passed' : `\n${failures} check${failures === 1 ? '' : 's'} failed`);
+	process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
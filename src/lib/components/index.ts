@@ -8,3 +8,13 @@ export { default as LandingPage } from './LandingPage.svelte';
 export { default as DirectiveModal } from './DirectiveModal.svelte';
 export { default as ComponentEditModal } from './ComponentEditModal.svelte';
 export { default as SourceEditModal } from './SourceEditModal.svelte';
+export { default as NetLabelModal } from './NetLabelModal.svelte';
+export { default as SubcircuitModal } from './SubcircuitModal.svelte';
+export { default as OperatingPointTable } from './OperatingPointTable.svelte';
+export { default as ToleranceModal } from './ToleranceModal.svelte';
+export { default as ToleranceResults } from './ToleranceResults.svelte';
+export { default as MeasurementsPanel } from './MeasurementsPanel.svelte';
+export { default as ProblemsPanel } from './ProblemsPanel.svelte';
+export { default as ImportNetlistModal } from './ImportNetlistModal.svelte';
+export { default as SymbolEditorModal } from './SymbolEditorModal.svelte';
+export { default as ComponentPalette } from './ComponentPalette.svelte';
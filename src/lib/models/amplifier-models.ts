@@ -0,0 +1,109 @@
+/**
+ * Built-in op-amp and comparator models
+ * Each model is a .subckt the netlist generator adds when an op-amp or comparator
+ * uses it. A model has a variant for symbols without supply pins (ports: in+ in- out)
+ * and/or one for symbols with them (in+ in- V+ V- out), where the output is limited
+ * to the rails.
+ * Any other .subckt in the schematic with the same port order can be used as well.
+ */
+
+import type { SubcircuitDef } from '../schematic/types';
+
+/** Component types using amplifier models */
+export type AmplifierKind = 'opamp' | 'comparator';
+
+/** One .subckt of a model */
+export interface AmplifierVariant extends SubcircuitDef {
+	text: string;
+	parameters: string[];  // Component attributes passed to the subcircuit as name=value
+}
+
+export interface AmplifierModel {
+	name: string;                          // Value attribute of the component
+	kind: AmplifierKind;
+	description: string;
+	defaults: Record<string, string>;      // Default of every parameter attribute
+	plain?: AmplifierVariant;              // Without supply pins
+	rails?: AmplifierVariant;              // With supply pins
+}
+
+function variant(name: string, ports: string[], parameters: string[], defaults: Record<string, string>, body: string[]): AmplifierVariant {
+	const params = parameters.map(p => `${p}=${defaults[p]}`).join(' ');
+	const text = [`.subckt ${name} ${ports.join(' ')}${params ? ` params: ${params}` : ''}`, ...body, `.ends ${name}`].join('\n');
+	return { name, ports, text, parameters };
+}
+
+const OPAMP_DEFAULTS = { Gain: '100k', GBW: '1meg' };
+const COMPARATOR_DEFAULTS = { VOH: '5', VOL: '0' };
+
+export const AMPLIFIER_MODELS: AmplifierModel[] = [
+	{
+		name: 'ideal',
+		kind: 'opamp',
+		description: 'Ideal op-amp: voltage-controlled voltage source with open-loop gain',
+		defaults: OPAMP_DEFAULTS,
+		plain: variant('WS_OPAMP_IDEAL', ['inp', 'inn', 'out'], ['Gain'], OPAMP_DEFAULTS, [
+			'E1 out 0 inp inn {Gain}'
+		]),
+		rails: variant('WS_OPAMP_IDEAL_RAILS', ['inp', 'inn', 'vp', 'vn', 'out'], ['Gain'], OPAMP_DEFAULTS, [
+			'E1 n1 0 inp inn {Gain}',
+			'B1 out 0 V=max(min(V(n1), V(vp)), V(vn))'
+		])
+	},
+	{
+		name: 'single-pole',
+		kind: 'opamp',
+		description: 'Op-amp with open-loop gain and one pole at GBW / Gain',
+		defaults: OPAMP_DEFAULTS,
+		plain: variant('WS_OPAMP_1POLE', ['inp', 'inn', 'out'], ['Gain', 'GBW'], OPAMP_DEFAULTS, [
+			'G1 0 n1 inp inn {Gain/1000}',
+			'R1 n1 0 1k',
+			'C1 n1 0 {Gain/(6.283185*1000*GBW)}',
+			'E1 out 0 n1 0 1'
+		]),
+		rails: variant('WS_OPAMP_1POLE_RAILS', ['inp', 'inn', 'vp', 'vn', 'out'], ['Gain', 'GBW'], OPAMP_DEFAULTS, [
+			'G1 0 n1 inp inn {Gain/1000}',
+			'R1 n1 0 1k',
+			'C1 n1 0 {Gain/(6.283185*1000*GBW)}',
+			'B1 out 0 V=max(min(V(n1), V(vp)), V(vn))'
+		])
+	},
+	{
+		name: 'LM358',
+		kind: 'opamp',
+		description: 'LM358-style single-supply macro-model: 100 dB gain, 1 MHz GBW, 0.3 V/us slew, output from V- to V+ - 1.5 V',
+		defaults: {},
+		rails: variant('LM358', ['inp', 'inn', 'vp', 'vn', 'out'], [], {}, [
+			'Rin inp inn 2meg',
+			'B1 0 n1 I=max(min(1e-2*V(inp,inn), 4.8e-4), -4.8e-4)',
+			'R1 n1 0 10meg',
+			'C1 n1 0 1.59n',
+			'B2 n2 0 V=max(min(V(n1), V(vp)-1.5), V(vn))',
+			'Rout n2 out 50',
+			'Iq vp vn 700u'
+		])
+	},
+	{
+		name: 'ideal',
+		kind: 'comparator',
+		description: 'Comparator switching between VOL and VOH (or the rails when supply pins are shown)',
+		defaults: COMPARATOR_DEFAULTS,
+		plain: variant('WS_COMPARATOR', ['inp', 'inn', 'out'], ['VOH', 'VOL'], COMPARATOR_DEFAULTS, [
+			'B1 out 0 V={VOL}+({VOH}-{VOL})*(0.5+0.5*tanh(1e4*V(inp,inn)))'
+		]),
+		rails: variant('WS_COMPARATOR_RAILS', ['inp', 'inn', 'vp', 'vn', 'out'], [], COMPARATOR_DEFAULTS, [
+			'B1 out 0 V=V(vn)+(V(vp)-V(vn))*(0.5+0.5*tanh(1e4*V(inp,inn)))'
+		])
+	}
+];
+
+/** Find a built-in model of an op-amp or comparator (case-insensitive) */
+export function findAmplifierModel(kind: AmplifierKind, name: string): AmplifierModel | undefined {
+	const key = name.toUpperCase();
+	return AMPLIFIER_MODELS.find(m => m.kind === kind && m.name.toUpperCase() === key);
+}
+
+/** Built-in models of one kind */
+export function getAmplifierModels(kind: AmplifierKind): AmplifierModel[] {
+	return AMPLIFIER_MODELS.filter(m => m.kind === kind);
+}
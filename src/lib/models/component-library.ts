@@ -6,15 +6,17 @@
  * when components reference them.
  */
 
-import type { SpiceModel } from '../schematic/types';
+import type { ComponentType, SpiceModel } from '../schematic/types';
+import { findUserModel, getUserModels } from './user-library';
 
 /** Model category for organization */
-export type ModelCategory = 'diode' | 'bjt' | 'mosfet' | 'jfet' | 'other';
+export type ModelCategory = 'diode' | 'bjt' | 'mosfet' | 'jfet' | 'switch' | 'other';
 
 /** Extended model info with metadata */
 export interface LibraryModel extends SpiceModel {
 	category: ModelCategory;
 	aliases?: string[];  // Alternative names (e.g., "D1N4148" for "1N4148")
+	symbol?: ComponentType;  // Diode symbol the model is drawn with (zener, led, ...)
 }
 
 /**
@@ -27,6 +29,7 @@ export const DIODE_MODELS: Record<string, LibraryModel> = {
 		params: 'Is=2.52e-9 Rs=0.568 N=1.752 Cjo=4e-12 M=0.4 tt=20e-9',
 		description: 'Small signal switching diode',
 		category: 'diode',
+		symbol: 'diode',
 		aliases: ['D1N4148', '1N4148']
 	},
 	'1N4001': {
@@ -35,6 +38,7 @@ export const DIODE_MODELS: Record<string, LibraryModel> = {
 		params: 'Is=1e-10 Rs=0.1 N=1.8 Cjo=25e-12 M=0.333 tt=5e-6 BV=50 IBV=5e-6',
 		description: '1A general purpose rectifier',
 		category: 'diode',
+		symbol: 'diode',
 		aliases: ['D1N4001']
 	},
 	'1N4007': {
@@ -43,6 +47,7 @@ export const DIODE_MODELS: Record<string, LibraryModel> = {
 		params: 'Is=1e-10 Rs=0.1 N=1.8 Cjo=25e-12 M=0.333 tt=5e-6 BV=1000 IBV=5e-6',
 		description: '1A 1000V rectifier',
 		category: 'diode',
+		symbol: 'diode',
 		aliases: ['D1N4007']
 	},
 	'1N5817': {
@@ -51,14 +56,82 @@ export const DIODE_MODELS: Record<string, LibraryModel> = {
 		params: 'Is=3.2e-8 Rs=0.042 N=1.05 Cjo=110e-12 M=0.35 tt=10e-9 BV=20 IBV=1e-4',
 		description: '1A Schottky barrier diode',
 		category: 'diode',
+		symbol: 'schottky',
 		aliases: ['D1N5817']
 	},
+	'BAT54': {
+		name: 'BAT54',
+		type: 'D',
+		params: 'Is=2e-8 Rs=1.1 N=1.04 Cjo=10e-12 M=0.33 tt=5e-9 BV=30 IBV=1e-6',
+		description: 'Small-signal Schottky diode, 30 V 200 mA',
+		category: 'diode',
+		symbol: 'schottky'
+	},
+	'BZX84C5V1': {
+		name: 'BZX84C5V1',
+		type: 'D',
+		params: 'Is=1e-14 Rs=5 N=1.1 Cjo=100e-12 M=0.33 BV=5.1 IBV=5e-3',
+		description: '5.1 V zener, 300 mW (BV at 5 mA)',
+		category: 'diode',
+		symbol: 'zener'
+	},
+	'1N4733A': {
+		name: '1N4733A',
+		type: 'D',
+		params: 'Is=1e-14 Rs=1 N=1 Cjo=150e-12 M=0.33 BV=5.1 IBV=49e-3',
+		description: '5.1 V zener, 1 W (BV at 49 mA)',
+		category: 'diode',
+		symbol: 'zener',
+		aliases: ['1N4733', 'D1N4733']
+	},
+	'1N4742A': {
+		name: '1N4742A',
+		type: 'D',
+		params: 'Is=1e-14 Rs=1 N=1 Cjo=70e-12 M=0.33 BV=12 IBV=21e-3',
+		description: '12 V zener, 1 W (BV at 21 mA)',
+		category: 'diode',
+		symbol: 'zener',
+		aliases: ['1N4742', 'D1N4742']
+	},
 	'LED_RED': {
 		name: 'LED_RED',
 		type: 'D',
-		params: 'Is=1e-20 Rs=2 N=1.5 Cjo=10e-12 M=0.33 tt=10e-9 BV=5',
-		description: 'Red LED (typical)',
-		category: 'diode'
+		params: 'Is=1e-20 Rs=2 N=1.5 Cjo=10e-12 M=0.33 tt=10e-9 BV=5 IBV=10e-6',
+		description: 'Red LED (typical), 1.6 V at 10 mA',
+		category: 'diode',
+		symbol: 'led'
+	},
+	'LED_GREEN': {
+		name: 'LED_GREEN',
+		type: 'D',
+		params: 'Is=3e-20 Rs=2 N=2 Cjo=10e-12 M=0.33 tt=10e-9 BV=5 IBV=10e-6',
+		description: 'Green LED (typical), 2.1 V at 10 mA',
+		category: 'diode',
+		symbol: 'led'
+	},
+	'LED_BLUE': {
+		name: 'LED_BLUE',
+		type: 'D',
+		params: 'Is=5e-20 Rs=3 N=3 Cjo=10e-12 M=0.33 tt=10e-9 BV=5 IBV=10e-6',
+		description: 'Blue LED (typical), 3.1 V at 10 mA',
+		category: 'diode',
+		symbol: 'led'
+	},
+	'LED_WHITE': {
+		name: 'LED_WHITE',
+		type: 'D',
+		params: 'Is=3e-20 Rs=3 N=3.1 Cjo=10e-12 M=0.33 tt=10e-9 BV=5 IBV=10e-6',
+		description: 'White LED (typical), 3.2 V at 10 mA',
+		category: 'diode',
+		symbol: 'led'
+	},
+	'MV2201': {
+		name: 'MV2201',
+		type: 'D',
+		params: 'Is=1.365e-12 Rs=1 N=1 Cjo=14.93e-12 M=0.4261 Vj=0.75 Fc=0.5 BV=25 IBV=10e-6',
+		description: 'Varactor, 6.8 pF at 4 V reverse bias',
+		category: 'diode',
+		symbol: 'varactor'
 	}
 };
 
@@ -92,18 +165,142 @@ export const BJT_MODELS: Record<string, LibraryModel> = {
 	}
 };
 
+/**
+ * Built-in JFET models
+ * Vto is negative for both polarities (the pinch-off voltage of a PJF is -Vto).
+ */
+export const JFET_MODELS: Record<string, LibraryModel> = {
+	'J2N5457': {
+		name: 'J2N5457',
+		type: 'NJF',
+		params: 'Vto=-1.372 Beta=1.125e-3 Lambda=2.3e-3 Rd=1 Rs=1 Cgs=4.06e-12 Cgd=4.57e-12 Pb=1 Is=181.3e-15',
+		description: 'General purpose N-channel JFET, Idss 2 mA, Vgs(off) -1.4 V',
+		category: 'jfet',
+		aliases: ['2N5457']
+	},
+	'J310': {
+		name: 'J310',
+		type: 'NJF',
+		params: 'Vto=-2.5 Beta=5e-3 Lambda=0.02 Rd=1 Rs=1 Cgs=5e-12 Cgd=2.5e-12 Pb=1 Is=1e-15',
+		description: 'VHF/UHF N-channel JFET, Idss 30 mA, Vgs(off) -2.5 V',
+		category: 'jfet'
+	},
+	'J2N5460': {
+		name: 'J2N5460',
+		type: 'PJF',
+		params: 'Vto=-2.5 Beta=0.8e-3 Lambda=0.01 Rd=1 Rs=1 Cgs=6e-12 Cgd=7e-12 Pb=1 Is=1e-15',
+		description: 'General purpose P-channel JFET, Idss 5 mA, Vgs(off) 2.5 V',
+		category: 'jfet',
+		aliases: ['2N5460']
+	}
+};
+
+/**
+ * Built-in MOSFET models
+ * The discrete parts are level 1 models sized for the default W = L (their KP and
+ * capacitances already describe the whole die); the 180nm models are BSIM3 (level 8)
+ * and need W and L on the instance, e.g. W=1u L=180n.
+ */
+export const MOSFET_MODELS: Record<string, LibraryModel> = {
+	'2N7000': {
+		name: '2N7000',
+		type: 'NMOS',
+		params: 'Level=1 Vto=2.1 Kp=0.1 Lambda=0.01 Rd=1 Rs=0.5 Cbd=25e-12 Cgso=2e-7 Cgdo=5e-8 Is=1e-14',
+		description: 'Small-signal N-channel MOSFET, 60 V 200 mA, Vth 2.1 V',
+		category: 'mosfet'
+	},
+	'IRF540': {
+		name: 'IRF540',
+		type: 'NMOS',
+		params: 'Level=1 Vto=3.5 Kp=5 Lambda=0.003 Rd=0.02 Rs=0.01 Cbd=1e-9 Cgso=1.5e-5 Cgdo=2e-6 Is=1e-12',
+		description: 'Power N-channel MOSFET, 100 V 28 A, Vth 3.5 V',
+		category: 'mosfet',
+		aliases: ['IRF540N']
+	},
+	'BSS84': {
+		name: 'BSS84',
+		type: 'PMOS',
+		params: 'Level=1 Vto=-1.6 Kp=0.05 Lambda=0.02 Rd=2 Rs=1 Cbd=15e-12 Cgso=1.5e-7 Cgdo=3e-8 Is=1e-14',
+		description: 'Small-signal P-channel MOSFET, -50 V -130 mA, Vth -1.6 V',
+		category: 'mosfet'
+	},
+	'NMOS_180NM': {
+		name: 'NMOS_180NM',
+		type: 'NMOS',
+		params: 'Level=8 Version=3.3 Tnom=27 Tox=4.1e-9 Xj=1e-7 Nch=2.35e17 Vth0=0.37 K1=0.59 U0=260 Vsat=1e5 Rdsw=105 Cgso=7.9e-10 Cgdo=7.9e-10 Cj=9.6e-4 Mj=0.38 Cjsw=2.5e-10 Mjsw=0.1',
+		description: 'Generic 180nm CMOS NMOS (BSIM3), 1.8 V, set W and L',
+		category: 'mosfet'
+	},
+	'PMOS_180NM': {
+		name: 'PMOS_180NM',
+		type: 'PMOS',
+		params: 'Level=8 Version=3.3 Tnom=27 Tox=4.1e-9 Xj=1e-7 Nch=4.16e17 Vth0=-0.39 K1=0.56 U0=105 Vsat=1.3e5 Rdsw=300 Cgso=6.6e-10 Cgdo=6.6e-10 Cj=1.2e-3 Mj=0.41 Cjsw=2.1e-10 Mjsw=0.35',
+		description: 'Generic 180nm CMOS PMOS (BSIM3), 1.8 V, set W and L',
+		category: 'mosfet'
+	}
+};
+
+/**
+ * Built-in switch models
+ * SW (voltage-controlled, S elements) switches at VT +- VH, CSW (current-controlled,
+ * W elements) at IT +- IH; RON and ROFF are the closed and open resistances.
+ */
+export const SWITCH_MODELS: Record<string, LibraryModel> = {
+	'SW_LOGIC': {
+		name: 'SW_LOGIC',
+		type: 'SW',
+		params: 'VT=2.5 VH=0.1 RON=0.1 ROFF=10meg',
+		description: 'Logic-level switch, closes above 2.6 V',
+		category: 'switch'
+	},
+	'SW_IDEAL': {
+		name: 'SW_IDEAL',
+		type: 'SW',
+		params: 'VT=0.5 VH=0 RON=1m ROFF=1e12',
+		description: 'Near-ideal switch, closes above 0.5 V',
+		category: 'switch'
+	},
+	'SW_RELAY': {
+		name: 'SW_RELAY',
+		type: 'SW',
+		params: 'VT=6 VH=2 RON=50m ROFF=1e9',
+		description: '12 V relay contact, pulls in at 8 V and drops out at 4 V',
+		category: 'switch'
+	},
+	'CSW_1MA': {
+		name: 'CSW_1MA',
+		type: 'CSW',
+		params: 'IT=1m IH=0.1m RON=0.1 ROFF=10meg',
+		description: 'Current switch, closes above 1.1 mA',
+		category: 'switch'
+	}
+};
+
+/** Parameters of each switch model type, in .model order */
+export const SWITCH_PARAMETERS: Record<string, string[]> = {
+	SW: ['VT', 'VH', 'RON', 'ROFF'],
+	CSW: ['IT', 'IH', 'RON', 'ROFF']
+};
+
 /**
  * All models combined
  */
 export const ALL_MODELS: Record<string, LibraryModel> = {
 	...DIODE_MODELS,
-	...BJT_MODELS
+	...BJT_MODELS,
+	...JFET_MODELS,
+	...MOSFET_MODELS,
+	...SWITCH_MODELS
 };
 
 /**
  * Look up a model by name (case-insensitive, checks aliases)
+ * Imported user models come before the built-in ones.
  */
 export function findModel(name: string): LibraryModel | undefined {
+	const userModel = findUserModel(name);
+	if (userModel) return userModel;
+
 	const upperName = name.toUpperCase();
 	
 	// Direct lookup
@@ -124,11 +321,35 @@ export function findModel(name: string): LibraryModel | undefined {
 	return undefined;
 }
 
+/** Imported and built-in models; an imported model hides a built-in one of the same name */
+export function getLibraryModels(): LibraryModel[] {
+	const userModels = getUserModels();
+	const names = new Set(userModels.map(m => m.name.toUpperCase()));
+	return [...userModels, ...Object.values(ALL_MODELS).filter(m => !names.has(m.name.toUpperCase()))];
+}
+
 /**
  * Get all models in a category
  */
 export function getModelsByCategory(category: ModelCategory): LibraryModel[] {
-	return Object.values(ALL_MODELS).filter(m => m.category === category);
+	return getLibraryModels().filter(m => m.category === category);
+}
+
+/** Read "VT=2.5 RON=0.1" style parameters into a map keyed by upper-case name */
+export function parseModelParams(params: string): Record<string, string> {
+	const values: Record<string, string> = {};
+	for (const [, name, value] of params.matchAll(/([A-Za-z_]\w*)\s*=\s*(\{[^}]*\}|\S+)/g)) {
+		values[name.toUpperCase()] = value;
+	}
+	return values;
+}
+
+/** Write parameters back as "NAME=value" pairs, skipping empty values */
+export function formatModelParams(values: Record<string, string>): string {
+	return Object.entries(values)
+		.filter(([, value]) => value.trim() !== '')
+		.map(([name, value]) => `${name}=${value.trim()}`)
+		.join(' ');
 }
 
 /**
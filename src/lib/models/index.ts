@@ -7,9 +7,47 @@ export {
 	type LibraryModel,
 	DIODE_MODELS,
 	BJT_MODELS,
+	JFET_MODELS,
+	MOSFET_MODELS,
+	SWITCH_MODELS,
+	SWITCH_PARAMETERS,
 	ALL_MODELS,
 	findModel,
+	getLibraryModels,
 	getModelsByCategory,
-	getModelDirective
+	getModelDirective,
+	parseModelParams,
+	formatModelParams
 } from './component-library';
 
+export {
+	type ModelLibraryFile,
+	ModelLibraryError,
+	parseModelLibrary,
+	loadUserLibrary,
+	importModelLibrary,
+	deleteModelLibrary,
+	getUserLibrary,
+	getUserModels,
+	getUserSubcircuits,
+	findUserModel,
+	findUserSubcircuit
+} from './user-library';
+
+export {
+	type AmplifierKind,
+	type AmplifierVariant,
+	type AmplifierModel,
+	AMPLIFIER_MODELS,
+	findAmplifierModel,
+	getAmplifierModels
+} from './amplifier-models';
+
+export {
+	type PartCategory,
+	type Part,
+	PART_CATEGORIES,
+	getModelComponentType,
+	getParts,
+	searchParts
+} from './parts';
@@ -0,0 +1,151 @@
+/**
+ * Parts of the component palette
+ * Every built-in component is a part, and so is every library model (placed as its
+ * component type with the model as value, e.g. "2N3904 NPN"), subcircuit and custom
+ * symbol. Parts are grouped by category and found by searching their name, description
+ * and category.
+ */
+
+import type { ComponentType, CustomSymbol, PlacementSpec, SubcircuitDef } from '../schematic/types';
+import { COMPONENT_DEFS } from '../schematic/component-defs';
+import { type LibraryModel, getLibraryModels } from './component-library';
+
+export type PartCategory = 'Basic' | 'Sources' | 'Diodes' | 'Transistors' | 'Amplifiers' | 'Switches & Lines' | 'Magnetics' | 'Subcircuits' | 'Custom Symbols';
+
+/** Categories in palette order */
+export const PART_CATEGORIES: PartCategory[] = [
+	'Basic', 'Sources', 'Diodes', 'Transistors', 'Amplifiers', 'Switches & Lines', 'Magnetics', 'Subcircuits', 'Custom Symbols'
+];
+
+export interface Part extends PlacementSpec {
+	key: string;           // Unique within the palette
+	name: string;
+	description: string;
+	category: PartCategory;
+	shortcut?: string;     // Keyboard shortcut of a built-in component
+}
+
+/** Category of each built-in component (subcircuit blocks and custom symbols are listed by name) */
+const BUILT_IN_CATEGORIES: Partial<Record<ComponentType, PartCategory>> = {
+	resistor: 'Basic',
+	capacitor: 'Basic',
+	inductor: 'Basic',
+	ground: 'Basic',
+	voltage: 'Sources',
+	current: 'Sources',
+	vcvs: 'Sources',
+	vccs: 'Sources',
+	ccvs: 'Sources',
+	cccs: 'Sources',
+	behavioral: 'Sources',
+	diode: 'Diodes',
+	zener: 'Diodes',
+	schottky: 'Diodes',
+	led: 'Diodes',
+	varactor: 'Diodes',
+	npn: 'Transistors',
+	pnp: 'Transistors',
+	njf: 'Transistors',
+	pjf: 'Transistors',
+	nmos: 'Transistors',
+	pmos: 'Transistors',
+	opamp: 'Amplifiers',
+	comparator: 'Amplifiers',
+	vswitch: 'Switches & Lines',
+	iswitch: 'Switches & Lines',
+	tline: 'Switches & Lines',
+	transformer: 'Magnetics',
+	coupling: 'Magnetics'
+};
+
+/** Component type a model is placed as, or null when no symbol uses it */
+export function getModelComponentType(model: LibraryModel): ComponentType | null {
+	switch (model.type.toUpperCase()) {
+		case 'D': return model.symbol ?? 'diode';
+		case 'NPN': return 'npn';
+		case 'PNP': return 'pnp';
+		case 'NJF': return 'njf';
+		case 'PJF': return 'pjf';
+		case 'NMOS': return 'nmos';
+		case 'PMOS': return 'pmos';
+		case 'VDMOS': return /\bpchan\b/i.test(model.params) ? 'pmos' : 'nmos';
+		case 'SW': return 'vswitch';
+		case 'CSW': return 'iswitch';
+		default: return null;
+	}
+}
+
+/**
+ * All parts: built-in components, library models (imported ones first), subcircuits and custom symbols
+ * @param subcircuits Subcircuits of the schematic and the model library
+ * @param symbols Custom symbols of the schematic and the symbol library
+ */
+export function getParts(subcircuits: SubcircuitDef[], symbols: CustomSymbol[]): Part[] {
+	const parts: Part[] = [];
+
+	for (const [type, category] of Object.entries(BUILT_IN_CATEGORIES) as [ComponentType, PartCategory][]) {
+		const def = COMPONENT_DEFS[type];
+		parts.push({ key: `type:${type}`, name: def.name, description: '', category, componentType: type, shortcut: def.shortcut });
+	}
+
+	for (const model of getLibraryModels()) {
+		const type = getModelComponentType(model);
+		const category = type && BUILT_IN_CATEGORIES[type];
+		if (!type || !category) continue;
+		parts.push({
+			key: `model:${model.name.toUpperCase()}`,
+			name: model.name,
+			description: [COMPONENT_DEFS[type].name, model.description].filter(Boolean).join(' - '),
+			category,
+			componentType: type,
+			value: model.name
+		});
+	}
+
+	const seenSubcircuits = new Set<string>();
+	for (const def of subcircuits) {
+		const key = def.name.toUpperCase();
+		if (seenSubcircuits.has(key)) continue;
+		seenSubcircuits.add(key);
+		parts.push({
+			key: `subckt:${key}`,
+			name: def.name,
+			description: def.ports.join(' '),
+			category: 'Subcircuits',
+			componentType: 'subckt',
+			subcircuit: def.name
+		});
+	}
+
+	const seenSymbols = new Set<string>();
+	for (const symbol of symbols) {
+		const key = symbol.name.toUpperCase();
+		if (seenSymbols.has(key)) continue;
+		seenSymbols.add(key);
+		parts.push({
+			key: `symbol:${key}`,
+			name: symbol.name,
+			description: symbol.prefix === 'X' ? `X ${symbol.subcircuit ?? ''}` : `${symbol.prefix} ${symbol.value}`,
+			category: 'Custom Symbols',
+			componentType: 'custom',
+			symbol: symbol.name
+		});
+	}
+
+	return parts;
+}
+
+/**
+ * Parts whose name, description or category contain every word of the query (case-insensitive)
+ * Parts whose name starts with the first word come first.
+ */
+export function searchParts(parts: Part[], query: string): Part[] {
+	const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+	if (words.length === 0) return parts;
+	const matches = parts.filter(part => {
+		const text = `${part.name} ${part.description} ${part.category}`.toLowerCase();
+		return words.every(word => text.includes(word));
+	});
+	const rank = (part: Part) => part.name.toLowerCase().startsWith(words[0]) ? 0 : 1;
+	return matches.sort((a, b) => rank(a) - rank(b));
+}
@@ -0,0 +1,174 @@
+/**
+ * User model library
+ * Vendor .lib / .mod files are imported into IndexedDB. Their .model and .subckt
+ * definitions are indexed by category and kept in memory once loaded, so findModel
+ * and the netlist generator resolve them after the schematic's own models and
+ * before the built-in library. Later imports win over earlier ones.
+ */
+
+import type { SubcircuitDef } from '../schematic/types';
+import type { LibraryModel, ModelCategory } from './component-library';
+import { parseSubcircuitText } from '../schematic/subcircuits';
+import { openDatabase, withStore } from '../storage/idb';
+
+const DB_NAME = 'webspice-models';
+const DB_VERSION = 1;
+const STORE = 'files';
+
+/** Imported model file */
+export interface ModelLibraryFile {
+	id: string;
+	name: string;                  // File name
+	importedAt: string;            // ISO timestamp
+	models: LibraryModel[];
+	subcircuits: SubcircuitDef[];  // Verbatim .subckt blocks
+}
+
+/** Thrown when a file holds nothing to import */
+export class ModelLibraryError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ModelLibraryError';
+	}
+}
+
+/** Category of a .model type */
+const CATEGORIES: Record<string, ModelCategory> = {
+	D: 'diode',
+	NPN: 'bjt',
+	PNP: 'bjt',
+	NMOS: 'mosfet',
+	PMOS: 'mosfet',
+	VDMOS: 'mosfet',
+	NJF: 'jfet',
+	PJF: 'jfet',
+	SW: 'switch',
+	CSW: 'switch'
+};
+
+/** Imported files, most recent first */
+let files: ModelLibraryFile[] = [];
+
+/**
+ * Read the .model and .subckt definitions of a library file
+ * Comments (* lines, ; and $ to the end of a line) are dropped and + continuation
+ * lines joined. .model lines inside a .subckt stay part of that subcircuit.
+ */
+export function parseModelLibrary(text: string, source = ''): Pick<ModelLibraryFile, 'models' | 'subcircuits'> {
+	const subcircuits = parseSubcircuitText(text);
+	const outside = text.replace(/\r\n?/g, '\n').replace(/^\s*\.subckt\b[\s\S]*?^\s*\.ends\b.*$/gim, '');
+
+	const statements: string[] = [];
+	for (const raw of outside.split('\n')) {
+		const line = raw.replace(/[;$].*$/, '').trim();
+		if (!line || line.startsWith('*')) continue;
+		if (line.startsWith('+') && statements.length > 0) {
+			statements[statements.length - 1] += ' ' + line.slice(1).trim();
+		} else {
+			statements.push(line);
+		}
+	}
+
+	const models: LibraryModel[] = [];
+	for (const statement of statements) {
+		const m = statement.match(/^\.model\s+(\S+)\s+([A-Za-z]+)\s*(.*)$/i);
+		if (!m) continue;
+		const type = m[2].toUpperCase();
+		// Parameters may be wrapped in parentheses, written with commas or both
+		const params = m[3].trim().replace(/^\(([\s\S]*)\)$/, '$1').replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+		models.push({
+			name: m[1],
+			type,
+			params,
+			description: source ? `Imported from ${source}` : undefined,
+			category: CATEGORIES[type] ?? 'other'
+		});
+	}
+	return { models, subcircuits };
+}
+
+/** Database of imported files */
+function openLibrary(): Promise<IDBDatabase> {
+	return openDatabase(DB_NAME, STORE, DB_VERSION);
+}
+
+/** Load the imported files into memory (call once at startup) */
+export async function loadUserLibrary(): Promise<ModelLibraryFile[]> {
+	const stored = await withStore<ModelLibraryFile[]>(await openLibrary(), 'readonly', store => store.getAll());
+	files = stored.sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+	return files;
+}
+
+/**
+ * Import a library file; a file with the same name replaces the earlier import
+ * @throws ModelLibraryError when the file has no .model or .subckt definitions
+ */
+export async function importModelLibrary(name: string, text: string): Promise<ModelLibraryFile> {
+	const { models, subcircuits } = parseModelLibrary(text, name);
+	if (models.length === 0 && subcircuits.length === 0) {
+		throw new ModelLibraryError(`${name} has no .model or .subckt definitions`);
+	}
+	const previous = files.find(f => f.name === name);
+	const file: ModelLibraryFile = {
+		id: previous?.id ?? crypto.randomUUID(),
+		name,
+		importedAt: new Date().toISOString(),
+		models,
+		subcircuits
+	};
+	await withStore(await openLibrary(), 'readwrite', store => store.put(file));
+	files = [file, ...files.filter(f => f.id !== file.id)];
+	return file;
+}
+
+export async function deleteModelLibrary(id: string): Promise<void> {
+	await withStore(await openLibrary(), 'readwrite', store => store.delete(id));
+	files = files.filter(f => f.id !== id);
+}
+
+/** Imported files, most recent first */
+export function getUserLibrary(): ModelLibraryFile[] {
+	return files;
+}
+
+/** Imported models (a name imported twice appears once, from the latest file) */
+export function getUserModels(): LibraryModel[] {
+	const seen = new Set<string>();
+	return files.flatMap(f => f.models).filter(m => {
+		const key = m.name.toUpperCase();
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+/** Imported subcircuits (a name imported twice appears once, from the latest file) */
+export function getUserSubcircuits(): SubcircuitDef[] {
+	const seen = new Set<string>();
+	return files.flatMap(f => f.subcircuits).filter(s => {
+		const key = s.name.toUpperCase();
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+/** Find an imported model (case-insensitive) */
+export function findUserModel(name: string): LibraryModel | undefined {
+	const key = name.toUpperCase();
+	for (const file of files) {
+		const model = file.models.find(m => m.name.toUpperCase() === key);
+		if (model) return model;
+	}
+	return undefined;
+}
+
+/** Find an imported subcircuit (case-insensitive) */
+export function findUserSubcircuit(name: string): SubcircuitDef | undefined {
+	const key = name.toUpperCase();
+	for (const file of files) {
+		const def = file.subcircuits.find(s => s.name.toUpperCase() === key);
+		if (def) return def;
+	}
+	return undefined;
+}
@@ -0,0 +1,190 @@
+/**
+ * Behavioral (B) source expressions
+ * A B source value is "V=<expression>" or "I=<expression>" in ngspice syntax,
+ * e.g. V=V(a)*V(b) or I=0.5*tanh(V(in,ref)/10m). The expression is parsed here
+ * so mistakes are reported in the editor rather than by ngspice at run time.
+ */
+
+/** Functions ngspice accepts in B source expressions */
+const FUNCTIONS = new Set([
+	'abs', 'acos', 'acosh', 'asin', 'asinh', 'atan', 'atanh', 'cos', 'cosh', 'exp', 'ln', 'log', 'log10',
+	'sin', 'sinh', 'sqrt', 'tan', 'tanh', 'u', 'u2', 'uramp', 'pow', 'pwr', 'min', 'max', 'floor', 'ceil',
+	'sgn', 'nint', 'ternary_fcn', 'ddt'
+]);
+
+/** Names usable without arguments */
+const CONSTANTS = new Set(['time', 'temper', 'hertz', 'pi']);
+
+/** Output of a B source */
+export type BehavioralOutput = 'V' | 'I';
+
+/** Split a B source value into its output kind and expression (null when there is no V= or I=) */
+export function splitBehavioralValue(value: string): { output: BehavioralOutput; expression: string } | null {
+	const m = value.trim().match(/^([VI])\s*=\s*([\s\S]*)$/i);
+	return m ? { output: m[1].toUpperCase() as BehavioralOutput, expression: m[2].trim() } : null;
+}
+
+type Token = { kind: 'number' | 'name' | 'param' | 'op'; text: string };
+
+const OPERATORS = ['**', '==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '^', '<', '>', '!', '?', ':', ',', '(', ')'];
+
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < expression.length) {
+		const rest = expression.slice(i);
+		const space = rest.match(/^\s+/);
+		if (space) {
+			i += space[0].length;
+			continue;
+		}
+		// Numbers with exponent and SPICE suffix (1k, 2.2meg, 1e-3)
+		const number = rest.match(/^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?[a-z]*/i);
+		if (number) {
+			tokens.push({ kind: 'number', text: number[0] });
+			i += number[0].length;
+			continue;
+		}
+		const name = rest.match(/^[a-z_][\w.]*/i);
+		if (name) {
+			tokens.push({ kind: 'name', text: name[0] });
+			i += name[0].length;
+			continue;
+		}
+		if (rest.startsWith('{')) {
+			const end = rest.indexOf('}');
+			if (end < 0) throw new Error('Missing } after {');
+			tokens.push({ kind: 'param', text: rest.slice(0, end + 1) });
+			i += end + 1;
+			continue;
+		}
+		const op = OPERATORS.find(o => rest.startsWith(o));
+		if (!op) throw new Error(`Unexpected "${rest[0]}"`);
+		tokens.push({ kind: 'op', text: op });
+		i += op.length;
+	}
+	return tokens;
+}
+
+/** Recursive descent over the token list, throwing on the first error */
+class ExpressionParser {
+	private pos = 0;
+
+	constructor(private tokens: Token[]) {}
+
+	parse(): void {
+		if (this.tokens.length === 0) throw new Error('The expression is empty');
+		this.ternary();
+		const extra = this.peek();
+		if (extra) throw new Error(extra.text === ')' ? 'Unmatched )' : `Unexpected "${extra.text}"`);
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.pos];
+	}
+
+	private accept(...ops: string[]): boolean {
+		const token = this.peek();
+		if (token?.kind === 'op' && ops.includes(token.text)) {
+			this.pos++;
+			return true;
+		}
+		return false;
+	}
+
+	private expect(op: string, after: string): void {
+		if (!this.accept(op)) throw new Error(`Missing ${op} ${after}`);
+	}
+
+	private ternary(): void {
+		this.binary(0);
+		if (this.accept('?')) {
+			this.ternary();
+			this.expect(':', 'in a ? b : c expression');
+			this.ternary();
+		}
+	}
+
+	/** Binary operators, loosest first */
+	private static readonly LEVELS = [['||'], ['&&'], ['==', '!=', '<', '>', '<=', '>='], ['+', '-'], ['*', '/']];
+
+	private binary(level: number): void {
+		if (level === ExpressionParser.LEVELS.length) {
+			this.unary();
+			return;
+		}
+		this.binary(level + 1);
+		while (this.accept(...ExpressionParser.LEVELS[level])) {
+			this.binary(level + 1);
+		}
+	}
+
+	private unary(): void {
+		if (this.accept('-', '+', '!')) {
+			this.unary();
+			return;
+		}
+		this.primary();
+		if (this.accept('^', '**')) this.unary();
+	}
+
+	private primary(): void {
+		const token = this.peek();
+		if (!token) throw new Error('The expression ends too early');
+		this.pos++;
+
+		if (token.kind === 'number' || token.kind === 'param') return;
+
+		if (token.kind === 'op') {
+			if (token.text !== '(') throw new Error(`Unexpected "${token.text}"`);
+			this.ternary();
+			this.expect(')', 'after (');
+			return;
+		}
+
+		const name = token.text.toLowerCase();
+		if (!this.accept('(')) {
+			if (CONSTANTS.has(name)) return;
+			throw new Error(`Unknown name ${token.text} (write parameters as {${token.text}})`);
+		}
+		if (name === 'v' || name === 'i') {
+			this.probe(name);
+			return;
+		}
+		if (!FUNCTIONS.has(name)) throw new Error(`Unknown function ${token.text}`);
+		this.ternary();
+		while (this.accept(',')) this.ternary();
+		this.expect(')', `after the arguments of ${token.text}`);
+	}
+
+	/** V(node), V(node1,node2) or I(Vsource), after the ( */
+	private probe(name: 'v' | 'i'): void {
+		const names: string[] = [];
+		do {
+			const token = this.peek();
+			if (token?.kind !== 'name' && token?.kind !== 'number') {
+				throw new Error(name === 'v' ? 'V() takes node names, e.g. V(out) or V(a,b)' : 'I() takes a voltage source name, e.g. I(V1)');
+			}
+			names.push(token.text);
+			this.pos++;
+		} while (this.accept(','));
+		this.expect(')', `after ${name.toUpperCase()}(${names.join(',')}`);
+		if (name === 'v' && names.length > 2) throw new Error('V() takes one or two node names');
+		if (name === 'i' && names.length !== 1) throw new Error('I() takes one voltage source name');
+	}
+}
+
+/**
+ * Check a B source value
+ * @returns What is wrong with it, or null when it is valid
+ */
+export function checkBehavioralValue(value: string): string | null {
+	const split = splitBehavioralValue(value);
+	if (!split) return 'Start with V= (voltage source) or I= (current source)';
+	try {
+		new ExpressionParser(tokenize(split.expression)).parse();
+		return null;
+	} catch (err) {
+		return err instanceof Error ? err.message : String(err);
+	}
+}
@@ -212,11 +212,64 @@ export function analyzeConnectivity(schematic: Schematic): ConnectivityResult {
 		}
 	}
 
-	// Step 5: Build nets from union-find groups
+	// Step 5: Attach net labels to the wire they sit on (pins at the same point share its key),
+	// then connect labels that carry the same name
+	const netLabels = schematic.netLabels ?? [];
+	const firstLabelByName = new Map<string, Point>();
+	for (const label of netLabels) {
+		const lp = { x: label.x, y: label.y };
+		uf.find(lp);
+		for (const wire of schematic.wires) {
+			if (pointOnWire(lp, wire)) {
+				uf.union(lp, { x: wire.x1, y: wire.y1 });
+			}
+		}
+		const key = label.name.toLowerCase();
+		const first = firstLabelByName.get(key);
+		if (first) {
+			uf.union(lp, first);
+		} else {
+			firstLabelByName.set(key, lp);
+		}
+	}
+
+	// A MOSFET bulk pin that connects to nothing (no wire, label or other pin) is tied to the source
+	const pointCounts = new Map([...uf.getGroups()].map(([root, points]) => [root, points.length]));
+	for (const comp of schematic.components) {
+		if (comp.type !== 'nmos' && comp.type !== 'pmos') continue;
+		const pins = getComponentPinPositions(comp);
+		const bulk = pins.find(p => p.pin === 'B');
+		const source = pins.find(p => p.pin === 'S');
+		if (!bulk || !source) continue;
+		const alone = pointCounts.get(uf.find(bulk.pos)) === 1
+			&& !netLabels.some(label => pointsEqual(label, bulk.pos))
+			&& !pinConnections.some(pc => pc.componentId !== comp.id && pointsEqual(pc.position, bulk.pos));
+		if (alone) uf.union(bulk.pos, source.pos);
+	}
+
+	// Step 6: Build nets from union-find groups
 	const groups = uf.getGroups();
 	const nets: Net[] = [];
 	let netCounter = 1;
 
+	// Numbered names must not collide with user label names
+	const labelNames = new Set(netLabels.map(l => l.name.toLowerCase()));
+	const nextNetName = (): string => {
+		while (labelNames.has(String(netCounter))) netCounter++;
+		return String(netCounter++);
+	};
+
+	// Label names attached to each group
+	const rootToLabels = new Map<string, string[]>();
+	for (const label of netLabels) {
+		const root = uf.find({ x: label.x, y: label.y });
+		const names = rootToLabels.get(root) ?? [];
+		if (!names.some(n => n.toLowerCase() === label.name.toLowerCase())) {
+			names.push(label.name);
+		}
+		rootToLabels.set(root, names);
+	}
+
 	// First pass: identify ground nets
 	const groundPoints = new Set<string>();
 	for (const comp of schematic.components) {
@@ -232,14 +285,29 @@ export function analyzeConnectivity(schematic: Schematic): ConnectivityResult {
 	// Create nets
 	const rootToNet = new Map<string, Net>();
 	for (const [root, points] of groups) {
-		const isGround = groundPoints.has(root);
+		const names = rootToLabels.get(root) ?? [];
+		const isGround = groundPoints.has(root) || names.includes('0');
+		let name: string;
+		if (isGround) {
+			name = '0';
+			const others = names.filter(n => n !== '0');
+			if (others.length > 0) {
+				errors.push(`Warning: Net label ${others.join(', ')} is connected to ground and will be named 0`);
+			}
+		} else if (names.length > 0) {
+			name = names[0];
+			if (names.length > 1) {
+				errors.push(`Warning: Net has several labels (${names.join(', ')}), using "${name}"`);
+			}
+		} else {
+			name = nextNetName();
+		}
 		const net: Net = {
-			id: `net_${isGround ? '0' : netCounter}`,
-			name: isGround ? '0' : String(netCounter),
+			id: `net_${name}`,
+			name,
 			points,
 			isGround
 		};
-		if (!isGround) netCounter++;
 		nets.push(net);
 		rootToNet.set(root, net);
 	}
@@ -259,13 +327,13 @@ export function analyzeConnectivity(schematic: Schematic): ConnectivityResult {
 	for (const pc of pinConnections) {
 		if (!pc.netId) {
 			// Create a new net for this floating pin
+			const name = nextNetName();
 			const net: Net = {
-				id: `net_${netCounter}`,
-				name: String(netCounter),
+				id: `net_${name}`,
+				name,
 				points: [pc.position],
 				isGround: false
 			};
-			netCounter++;
 			nets.push(net);
 			pc.netId = net.id;
 			errors.push(`Warning: ${pc.componentName} pin ${pc.pinName} is floating (not connected)`);
@@ -0,0 +1,107 @@
+/**
+ * Mutual inductance (K) couplings and transformers
+ * A coupling's value is an LTSpice-style K statement without the name: the InstNames
+ * of the coupled inductors followed by the coefficient, e.g. "L1 L2 1". ngspice couples
+ * two inductors per K line, so three or more are emitted as one line per pair.
+ * A transformer bundles two coupled windings; its value is "Lp=1m Ls=4m K=1".
+ */
+
+import type { Component } from '../schematic/types';
+
+/** Inductors coupled by a K statement */
+export interface Coupling {
+	inductors: string[];
+	coefficient: string;
+}
+
+/** Windings and coupling of a transformer */
+export interface TransformerValue {
+	lp: string;  // Primary inductance
+	ls: string;  // Secondary inductance
+	k: string;   // Coupling coefficient
+}
+
+export const DEFAULT_TRANSFORMER: TransformerValue = { lp: '1m', ls: '1m', k: '1' };
+
+/** Split a coupling value into its inductors and coefficient (the last token) */
+export function parseCoupling(value: string): Coupling {
+	const tokens = value.trim().split(/\s+/).filter(Boolean);
+	return { inductors: tokens.slice(0, -1), coefficient: tokens[tokens.length - 1] ?? '' };
+}
+
+export function formatCoupling({ inductors, coefficient }: Coupling): string {
+	return [...inductors, coefficient].join(' ');
+}
+
+/**
+ * Check a coupling against the inductors of its circuit
+ * @returns What is wrong with it, or null when it is valid
+ */
+export function checkCoupling(value: string, inductors: string[]): string | null {
+	const { inductors: coupled, coefficient } = parseCoupling(value);
+	if (coupled.length < 2) return 'Couple two or more inductors, e.g. L1 L2 1';
+
+	const keys = coupled.map(name => name.toUpperCase());
+	if (new Set(keys).size !== keys.length) return 'An inductor is listed more than once';
+
+	const known = new Set(inductors.map(name => name.toUpperCase()));
+	const missing = coupled.filter(name => !known.has(name.toUpperCase()));
+	if (missing.length > 0) {
+		return `${missing.join(', ')} ${missing.length === 1 ? 'is not an inductor' : 'are not inductors'} in the circuit`;
+	}
+
+	// Parameter expressions are checked by ngspice
+	if (!/^\{.*\}$/.test(coefficient)) {
+		const k = Number(coefficient);
+		if (!Number.isFinite(k) || k === 0 || Math.abs(k) > 1) return 'The coupling coefficient must be a number from -1 to 1 (not 0)';
+	}
+	return null;
+}
+
+/** Inductor pairs of a coupling, one K line each */
+export function couplingPairs(inductors: string[]): [string, string][] {
+	const pairs: [string, string][] = [];
+	for (let i = 0; i < inductors.length; i++) {
+		for (let j = i + 1; j < inductors.length; j++) {
+			pairs.push([inductors[i], inductors[j]]);
+		}
+	}
+	return pairs;
+}
+
+/** Read a transformer value; missing fields take their defaults */
+export function parseTransformerValue(value: string): TransformerValue {
+	const field = (name: string, fallback: string) => value.match(new RegExp(`\\b${name}\\s*=\\s*(\\{[^}]*\\}|\\S+)`, 'i'))?.[1] ?? fallback;
+	return {
+		lp: field('Lp', DEFAULT_TRANSFORMER.lp),
+		ls: field('Ls', DEFAULT_TRANSFORMER.ls),
+		k: field('K', DEFAULT_TRANSFORMER.k)
+	};
+}
+
+export function formatTransformerValue({ lp, ls, k }: TransformerValue): string {
+	return `Lp=${lp} Ls=${ls} K=${k}`;
+}
+
+/** SPICE names of a transformer's primary and secondary windings */
+export function transformerWindings(instName: string): [string, string] {
+	return [`L${instName}_P`, `L${instName}_S`];
+}
+
+/**
+ * Follow an inductor rename in the couplings that name it
+ * @returns The components, with the couplings updated (the same array when none refer to it)
+ */
+export function renameCoupledInductor(components: Component[], oldName: string, newName: string): Component[] {
+	if (!oldName || !newName || oldName.toUpperCase() === newName.toUpperCase()) return components;
+	let changed = false;
+	const updated = components.map(comp => {
+		if (comp.type !== 'coupling') return comp;
+		const coupling = parseCoupling(comp.attributes['Value'] || '');
+		if (!coupling.inductors.some(name => name.toUpperCase() === oldName.toUpperCase())) return comp;
+		changed = true;
+		const inductors = coupling.inductors.map(name => name.toUpperCase() === oldName.toUpperCase() ? newName : name);
+		return { ...comp, attributes: { ...comp.attributes, Value: formatCoupling({ ...coupling, inductors }) } };
+	});
+	return changed ? updated : components;
+}
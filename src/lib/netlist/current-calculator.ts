@@ -8,7 +8,7 @@
 import type { Schematic, Component } from '../schematic/types';
 import type { RealDataType } from '../simulation/types';
 import { analyzeConnectivity } from './connectivity';
-import { PIN_ORDER } from './types';
+import { PIN_ORDER, DIODE_TYPES } from './types';
 import { findModel } from '../models';
 
 /** Expand parameter references like {CC} using the parameters map */
@@ -84,7 +84,7 @@ function calculateDiodeCurrent(vDiff: number[], Is: number, N: number, Rs: numbe
 }
 
 /** Get node names for a component's pins */
-function getComponentNodes(comp: Component, schematic: Schematic): { node1: string; node2: string } | null {
+export function getComponentNodes(comp: Component, schematic: Schematic): { node1: string; node2: string } | null {
 	const connectivity = analyzeConnectivity(schematic);
 	const pinOrder = PIN_ORDER[comp.type];
 	if (!pinOrder || pinOrder.length < 2) return null;
@@ -156,7 +156,7 @@ export function calculateComponentCurrent(
 
 	let current: number[];
 
-	if (comp.type === 'diode') {
+	if (DIODE_TYPES.includes(comp.type)) {
 		// For diodes, use Shockley equation: I = Is * (exp(V/(N*Vt)) - 1)
 		const modelName = comp.attributes['Value'] || '1N4148';
 		const model = findModel(modelName);
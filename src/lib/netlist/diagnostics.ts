@@ -0,0 +1,88 @@
+/**
+ * Simulation diagnostics on the schematic
+ * ngspice names instances and nodes in lowercase; these are matched against
+ * the InstName of components and the nets found by analyzeConnectivity.
+ */
+
+import type { Schematic, SchematicHighlight } from '../schematic/types';
+import type { SimulationDiagnostic } from '../simulation/types';
+import type { ConnectivityResult, Net } from './types';
+import { analyzeConnectivity, pointsEqual } from './connectivity';
+
+/**
+ * Name of the top-level instance an ngspice instance or node belongs to
+ * Anything inside a subcircuit ("r.x1.r2", "x1.r2", "x1.n001") maps to its X block.
+ */
+function topLevelName(name: string): string {
+	const parts = name.toLowerCase().split('.');
+	if (parts.length === 1) return parts[0];
+	return parts.find(p => p.startsWith('x')) ?? parts[parts.length - 1];
+}
+
+/** Highlight a net: its wires and net labels, and every component with a pin on it */
+export function highlightNet(schematic: Schematic, connectivity: ConnectivityResult, net: Net): SchematicHighlight {
+	const highlight: SchematicHighlight = { componentIds: [], wireIds: [], netLabelIds: [] };
+	const onNet = (x: number, y: number) => net.points.some(p => pointsEqual(p, { x, y }));
+
+	for (const wire of schematic.wires) {
+		if (onNet(wire.x1, wire.y1) || onNet(wire.x2, wire.y2)) {
+			highlight.wireIds.push(wire.id);
+		}
+	}
+	for (const label of schematic.netLabels ?? []) {
+		if (label.name.toLowerCase() === net.name.toLowerCase() || onNet(label.x, label.y)) {
+			highlight.netLabelIds.push(label.id);
+		}
+	}
+	for (const pc of connectivity.pinConnections) {
+		if (pc.netId === net.id && !highlight.componentIds.includes(pc.componentId)) {
+			highlight.componentIds.push(pc.componentId);
+		}
+	}
+
+	return highlight;
+}
+
+/** Find the components, wires and net labels a diagnostic refers to (empty if it names neither) */
+export function locateDiagnostic(diagnostic: SimulationDiagnostic, schematic: Schematic): SchematicHighlight {
+	const highlight: SchematicHighlight = { componentIds: [], wireIds: [], netLabelIds: [] };
+
+	if (diagnostic.instance) {
+		const name = topLevelName(diagnostic.instance);
+		for (const comp of schematic.components) {
+			if ((comp.attributes['InstName'] || '').toLowerCase() === name) {
+				highlight.componentIds.push(comp.id);
+			}
+		}
+	}
+
+	if (diagnostic.node) {
+		if (diagnostic.node.includes('.')) {
+			// Node inside a subcircuit: point at the block
+			const name = topLevelName(diagnostic.node);
+			for (const comp of schematic.components) {
+				if ((comp.attributes['InstName'] || '').toLowerCase() === name) {
+					highlight.componentIds.push(comp.id);
+				}
+			}
+			return highlight;
+		}
+
+		const connectivity = analyzeConnectivity(schematic);
+		const net = connectivity.nets.find(n => n.name.toLowerCase() === diagnostic.node);
+		if (!net) return highlight;
+
+		// Everything connected to the node, e.g. the capacitor that leaves it floating
+		const onNet = highlightNet(schematic, connectivity, net);
+		highlight.wireIds.push(...onNet.wireIds);
+		highlight.netLabelIds.push(...onNet.netLabelIds);
+		highlight.componentIds.push(...onNet.componentIds.filter(id => !highlight.componentIds.includes(id)));
+	}
+
+	return highlight;
+}
+
+/** Check if a highlight is empty */
+export function isEmptyHighlight(highlight: SchematicHighlight): boolean {
+	return highlight.componentIds.length === 0 && highlight.wireIds.length === 0 && highlight.netLabelIds.length === 0;
+}
@@ -0,0 +1,302 @@
+/**
+ * Electrical rule check (ERC)
+ * Finds the circuits ngspice cannot solve (or solves wrongly) before they reach
+ * the engine: no ground, nodes without a DC path to ground, loops of voltage
+ * sources, current sources in series, dangling pins, duplicate instance names
+ * and parameters that are never defined.
+ */
+
+import type { Schematic, SchematicHighlight, Component, ComponentType } from '../schematic/types';
+import type { ConnectivityResult } from './types';
+import { analyzeConnectivity } from './connectivity';
+import { highlightNet } from './diagnostics';
+import { parseStepDirective } from './step';
+import { splitBehavioralValue } from './behavioral';
+
+export type ErcRule =
+	| 'no-ground'
+	| 'no-dc-path'
+	| 'capacitor-only-node'
+	| 'voltage-loop'
+	| 'series-current-sources'
+	| 'single-pin-net'
+	| 'duplicate-name'
+	| 'unresolved-parameter';
+
+export interface ErcFinding {
+	rule: ErcRule;
+	severity: 'error' | 'warning';
+	message: string;
+	highlight: SchematicHighlight;
+}
+
+/** Pin pairs that conduct at DC, per component type (others, like capacitors and current sources, do not) */
+const DC_PATHS: Partial<Record<ComponentType, [string, string][]>> = {
+	resistor: [['1', '2']],
+	inductor: [['1', '2']],
+	voltage: [['+', '-']],
+	diode: [['A', 'K']],
+	zener: [['A', 'K']],
+	schottky: [['A', 'K']],
+	led: [['A', 'K']],
+	varactor: [['A', 'K']],
+	npn: [['C', 'B'], ['B', 'E']],
+	pnp: [['C', 'B'], ['B', 'E']],
+	njf: [['D', 'S'], ['G', 'S']],  // The channel conducts and the gate is a junction
+	pjf: [['D', 'S'], ['G', 'S']],
+	nmos: [['D', 'S']],
+	pmos: [['D', 'S']],
+	vcvs: [['+', '-']],  // Control inputs of E and G sources draw no current
+	ccvs: [['+', '-']],
+	transformer: [['P1', 'P2'], ['S1', 'S2']],  // Windings are isolated from each other
+	vswitch: [['+', '-']],  // Open switches still conduct through ROFF
+	iswitch: [['+', '-']],
+	tline: [['A+', 'B+'], ['A-', 'B-']]
+};
+
+/** Component types that short their pins at DC (a loop of sources is singular, one through inductors may not be) */
+const DC_SHORTS: ComponentType[] = ['voltage', 'inductor', 'vcvs', 'ccvs'];
+
+/** Component types whose output is a current */
+const CURRENT_SOURCES: ComponentType[] = ['current', 'vccs', 'cccs'];
+
+/** B sources behave like a voltage or current source depending on their V= or I= */
+function isBehavioralVoltage(comp: Component): boolean {
+	return comp.type === 'behavioral' && splitBehavioralValue(comp.attributes['Value'] || '')?.output !== 'I';
+}
+
+function isCurrentSource(comp: Component): boolean {
+	return CURRENT_SOURCES.includes(comp.type) || (comp.type === 'behavioral' && !isBehavioralVoltage(comp));
+}
+
+/** Pin pairs of a component that conduct at DC */
+function dcPaths(comp: Component): [string, string][] {
+	if (comp.type === 'subckt') return comp.pins.slice(1).map(p => [comp.pins[0].name, p.name]);
+	// Custom symbols are taken to conduct like blocks, unless they are capacitors or current sources
+	if (comp.type === 'custom') {
+		return ['C', 'I'].includes(comp.attributes['Prefix'] ?? '') ? [] : comp.pins.slice(1).map(p => [comp.pins[0].name, p.name]);
+	}
+	if (isBehavioralVoltage(comp)) return [['+', '-']];
+	return DC_PATHS[comp.type] ?? [];
+}
+
+/** True when the component holds a fixed voltage across its pins at DC */
+function isDcShort(comp: Component): boolean {
+	return DC_SHORTS.includes(comp.type) || isBehavioralVoltage(comp);
+}
+
+/** Functions and constants allowed inside {expressions} */
+const EXPRESSION_NAMES = new Set([
+	'abs', 'sqrt', 'exp', 'ln', 'log', 'log10', 'pow', 'pwr', 'sin', 'cos', 'tan', 'atan',
+	'sinh', 'cosh', 'tanh', 'min', 'max', 'floor', 'ceil', 'int', 'nint', 'sgn', 'if', 'pi', 'e',
+	'temper', 'hertz', 'time'
+]);
+
+/** Small union-find over net ids */
+class NetSets {
+	private parent = new Map<string, string>();
+
+	find(id: string): string {
+		let root = id;
+		while (this.parent.has(root) && this.parent.get(root) !== root) {
+			root = this.parent.get(root)!;
+		}
+		this.parent.set(id, root);
+		return root;
+	}
+
+	/** Join two sets; false if they were already joined */
+	union(a: string, b: string): boolean {
+		const ra = this.find(a);
+		const rb = this.find(b);
+		if (ra === rb) return false;
+		this.parent.set(ra, rb);
+		return true;
+	}
+}
+
+function nameOf(comp: Component): string {
+	return comp.attributes['InstName'] || comp.id;
+}
+
+function componentHighlight(ids: string[]): SchematicHighlight {
+	return { componentIds: ids, wireIds: [], netLabelIds: [] };
+}
+
+/** Net of every pin, keyed by "componentId:pinName" */
+function pinNets(connectivity: ConnectivityResult): Map<string, string> {
+	const map = new Map<string, string>();
+	for (const pc of connectivity.pinConnections) {
+		if (pc.netId) map.set(`${pc.componentId}:${pc.pinName}`, pc.netId);
+	}
+	return map;
+}
+
+/**
+ * Run the electrical rule check on a schematic
+ * Subcircuit blocks are assumed to connect all their pins at DC.
+ * Findings are sorted with errors first.
+ */
+export function runErc(schematic: Schematic, connectivity: ConnectivityResult = analyzeConnectivity(schematic)): ErcFinding[] {
+	const findings: ErcFinding[] = [];
+	const parts = schematic.components.filter(c => c.type !== 'ground');
+	if (parts.length === 0) return findings;
+
+	const byId = new Map(schematic.components.map(c => [c.id, c]));
+	const netOf = pinNets(connectivity);
+	const groundNets = connectivity.nets.filter(n => n.isGround);
+
+	// Component pins on each net (ground symbols excluded)
+	const pinsOnNet = new Map<string, { comp: Component; pin: string }[]>();
+	for (const pc of connectivity.pinConnections) {
+		const comp = byId.get(pc.componentId);
+		if (!comp || comp.type === 'ground' || !pc.netId) continue;
+		const pins = pinsOnNet.get(pc.netId) ?? [];
+		pins.push({ comp, pin: pc.pinName });
+		pinsOnNet.set(pc.netId, pins);
+	}
+	const signalNets = connectivity.nets.filter(n => !n.isGround && pinsOnNet.has(n.id));
+
+	// No ground
+	if (groundNets.length === 0) {
+		findings.push({
+			rule: 'no-ground',
+			severity: 'error',
+			message: 'The circuit has no ground: place a ground symbol or name a net 0',
+			highlight: componentHighlight([])
+		});
+	}
+
+	// Nodes without a DC path to ground
+	const dc = new NetSets();
+	for (const comp of parts) {
+		for (const [a, b] of dcPaths(comp)) {
+			const na = netOf.get(`${comp.id}:${a}`);
+			const nb = netOf.get(`${comp.id}:${b}`);
+			if (na && nb) dc.union(na, nb);
+		}
+	}
+	// Op-amp and comparator outputs are driven against ground inside their models
+	for (const comp of parts) {
+		const out = (comp.type === 'opamp' || comp.type === 'comparator') && netOf.get(`${comp.id}:OUT`);
+		if (out && groundNets.length > 0) dc.union(out, groundNets[0].id);
+	}
+	const groundRoots = new Set(groundNets.map(n => dc.find(n.id)));
+	if (groundNets.length > 0) {
+		for (const net of signalNets) {
+			if (groundRoots.has(dc.find(net.id))) continue;
+			const pins = pinsOnNet.get(net.id)!;
+			if (pins.length < 2) continue;  // Reported as a single-pin net
+			if (pins.every(p => p.comp.type === 'capacitor')) {
+				findings.push({
+					rule: 'capacitor-only-node',
+					severity: 'error',
+					message: `Node ${net.name} only connects capacitors (${pins.map(p => nameOf(p.comp)).join(', ')}): add a resistor to ground`,
+					highlight: highlightNet(schematic, connectivity, net)
+				});
+			} else if (pins.every(p => isCurrentSource(p.comp) && (p.pin === '+' || p.pin === '-'))) {
+				findings.push({
+					rule: 'series-current-sources',
+					severity: 'error',
+					message: `Node ${net.name} only connects current sources (${pins.map(p => nameOf(p.comp)).join(', ')}), which are in series`,
+					highlight: highlightNet(schematic, connectivity, net)
+				});
+			} else {
+				findings.push({
+					rule: 'no-dc-path',
+					severity: 'error',
+					message: `Node ${net.name} has no DC path to ground`,
+					highlight: highlightNet(schematic, connectivity, net)
+				});
+			}
+		}
+	}
+
+	// Loops of voltage sources (including one shorted across itself) are singular. Inductors
+	// join the loops after the sources: ngspice usually solves a loop closed by an inductor
+	// (e.g. a source driving an inductor directly), so that is only a warning.
+	const shorts = new NetSets();
+	const sources = parts.filter(c => isDcShort(c) && c.type !== 'inductor');
+	const inductors = parts.filter(c => c.type === 'inductor');
+	for (const comp of [...sources, ...inductors]) {
+		const inductor = comp.type === 'inductor';
+		const [a, b] = inductor ? ['1', '2'] : ['+', '-'];
+		const na = netOf.get(`${comp.id}:${a}`);
+		const nb = netOf.get(`${comp.id}:${b}`);
+		if (!na || !nb) continue;
+		if (!shorts.union(na, nb)) {
+			const kind = inductor ? 'Inductor' : 'Voltage source';
+			findings.push({
+				rule: 'voltage-loop',
+				severity: inductor ? 'warning' : 'error',
+				message: na === nb
+					? `${kind} ${nameOf(comp)} is shorted (both pins on node ${connectivity.nets.find(n => n.id === na)?.name})`
+					: inductor
+						? `Inductor ${nameOf(comp)} closes a loop of voltage sources and inductors (a short at DC)`
+						: `Voltage source ${nameOf(comp)} closes a loop of voltage sources`,
+				highlight: componentHighlight([comp.id])
+			});
+		}
+	}
+
+	// Nets with a single pin
+	for (const net of signalNets) {
+		const pins = pinsOnNet.get(net.id)!;
+		if (pins.length !== 1) continue;
+		findings.push({
+			rule: 'single-pin-net',
+			severity: 'warning',
+			message: `${nameOf(pins[0].comp)} pin ${pins[0].pin} is not connected to anything else (node ${net.name})`,
+			highlight: highlightNet(schematic, connectivity, net)
+		});
+	}
+
+	// Duplicate instance names
+	const byName = new Map<string, Component[]>();
+	for (const comp of parts) {
+		const name = nameOf(comp).toUpperCase();
+		byName.set(name, [...(byName.get(name) ?? []), comp]);
+	}
+	for (const [, comps] of byName) {
+		if (comps.length < 2) continue;
+		findings.push({
+			rule: 'duplicate-name',
+			severity: 'error',
+			message: `${comps.length} components are named ${nameOf(comps[0])}`,
+			highlight: componentHighlight(comps.map(c => c.id))
+		});
+	}
+
+	// {param} references without a .param (a stepped parameter counts as defined)
+	const defined = new Set(Object.keys(schematic.parameters ?? {}).map(n => n.toLowerCase()));
+	const step = schematic.directives?.find(d => d.type === 'step');
+	if (step) {
+		try {
+			defined.add(parseStepDirective(step.text).param.toLowerCase());
+		} catch {
+			// An invalid .step is reported by the netlist generator
+		}
+	}
+	for (const comp of parts) {
+		const missing = new Set<string>();
+		for (const value of Object.values(comp.attributes)) {
+			for (const [, expression] of value.matchAll(/\{([^}]*)\}/g)) {
+				for (const [name] of expression.matchAll(/(?<![\w.])[A-Za-z_]\w*/g)) {
+					if (!defined.has(name.toLowerCase()) && !EXPRESSION_NAMES.has(name.toLowerCase())) {
+						missing.add(name);
+					}
+				}
+			}
+		}
+		if (missing.size === 0) continue;
+		findings.push({
+			rule: 'unresolved-parameter',
+			severity: 'error',
+			message: `${nameOf(comp)} uses undefined parameter${missing.size > 1 ? 's' : ''} ${[...missing].join(', ')}`,
+			highlight: componentHighlight([comp.id])
+		});
+	}
+
+	return findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
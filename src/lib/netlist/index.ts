@@ -6,4 +6,12 @@ export * from './types';
 export * from './connectivity';
 export * from './netlist-generator';
 export * from './current-calculator';
-
+export * from './operating-point';
+export * from './step';
+export * from './tolerance';
+export * from './diagnostics';
+export * from './erc';
+export * from './netlist-parser';
+export * from './netlist-import';
+export * from './behavioral';
+export * from './coupling';
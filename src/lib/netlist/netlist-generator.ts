@@ -3,14 +3,18 @@
  * Converts schematic to SPICE netlist text
  */
 
-import type { Schematic, Component } from '../schematic/types';
+import type { Schematic, Component, SubcircuitDef, SpiceModel } from '../schematic/types';
 import type { GeneratedNetlist, SpiceComponent, PinConnection } from './types';
-import { COMPONENT_PREFIX, DEFAULT_VALUES, PIN_ORDER } from './types';
+import { COMPONENT_PREFIX, DEFAULT_VALUES, PIN_ORDER, AMPLIFIER_SUPPLY_PIN_ORDER, MOSFET_PARAMETERS, DIODE_TYPES } from './types';
 import { analyzeConnectivity } from './connectivity';
-import { findModel, getModelDirective } from '../models';
+import { findModel, getModelDirective, findAmplifierModel, findUserModel, findUserSubcircuit, getUserSubcircuits, type AmplifierVariant } from '../models';
+import { hasBulkPin, hasSupplyPins } from '../schematic/component-defs';
+import { parseStepDirective } from './step';
+import { checkBehavioralValue } from './behavioral';
+import { checkCoupling, couplingPairs, parseCoupling, parseTransformerValue, transformerWindings } from './coupling';
 
 /** Expand parameter references like {CC} using the parameters map */
-function expandParameters(value: string, parameters: Record<string, string>): string {
+export function expandParameters(value: string, parameters: Record<string, string>): string {
 	return value.replace(/\{(\w+)\}/g, (match, paramName) => {
 		const paramValue = parameters[paramName];
 		if (paramValue !== undefined) {
@@ -65,7 +69,7 @@ function fixTranDirective(text: string): string {
 }
 
 /** Parse SPICE value with suffix (e.g., "1u" -> 1e-6, "10m" -> 0.01) */
-function parseSpiceValue(value: string): number {
+export function parseSpiceValue(value: string): number {
 	const match = value.match(/^([+-]?[\d.]+)([a-zA-Z]*)$/);
 	if (!match) return parseFloat(value) || 0;
 
@@ -81,7 +85,7 @@ function parseSpiceValue(value: string): number {
 }
 
 /** Format number as SPICE value with appropriate suffix */
-function formatSpiceValue(value: number): string {
+export function formatSpiceValue(value: number): string {
 	if (value === 0) return '0';
 
 	const absVal = Math.abs(value);
@@ -95,7 +99,7 @@ function formatSpiceValue(value: number): string {
 		if (absVal >= mult) {
 			const scaled = value / mult;
 			// Use reasonable precision
-			const formatted = scaled.toPrecision(3).replace(/\.?0+$/, '');
+			const formatted = scaled.toPrecision(3).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
 			return formatted + suffix;
 		}
 	}
@@ -108,6 +112,7 @@ export function generateNetlist(schematic: Schematic, title: string = 'Untitled
 	const result: GeneratedNetlist = {
 		title,
 		components: [],
+		subcircuits: [],
 		directives: [],
 		errors: [],
 		warnings: []
@@ -116,6 +121,17 @@ export function generateNetlist(schematic: Schematic, title: string = 'Untitled
 	// Get parameters from schematic (or empty object)
 	const parameters = schematic.parameters || {};
 
+	// A stepped parameter stays as {NAME} in component values so each run's .param applies
+	const stepDirective = schematic.directives?.find(d => d.type === 'step');
+	const expandable = { ...parameters };
+	if (stepDirective) {
+		try {
+			delete expandable[parseStepDirective(stepDirective.text).param];
+		} catch (err) {
+			result.errors.push(err instanceof Error ? err.message : String(err));
+		}
+	}
+
 	// Analyze connectivity
 	const connectivity = analyzeConnectivity(schematic);
 
@@ -129,24 +145,21 @@ export function generateNetlist(schematic: Schematic, title: string = 'Untitled
 	}
 
 	// Build a map of component pins to net names
-	const pinToNet = new Map<string, string>();
-	for (const pc of connectivity.pinConnections) {
-		const key = `${pc.componentId}:${pc.pinName}`;
-		const net = connectivity.nets.find(n => n.id === pc.netId);
-		pinToNet.set(key, net?.name || '?');
-	}
+	const pinToNet = buildPinToNet(connectivity);
 
 	// Generate SPICE components (with parameter expansion)
 	for (const comp of schematic.components) {
 		// Skip ground - it's not a component, it defines node 0
 		if (comp.type === 'ground') continue;
 
-		const spiceComp = componentToSpice(comp, pinToNet, parameters);
-		if (spiceComp) {
-			result.components.push(spiceComp);
+		const elements = componentToSpiceElements(comp, pinToNet, expandable);
+		if (elements) {
+			result.components.push(...elements);
 		} else {
 			result.errors.push(`Failed to generate SPICE for ${comp.attributes['InstName'] || comp.id}`);
 		}
+		const problem = checkSource(comp, schematic.components, schematic.subcircuits);
+		if (problem) result.errors.push(problem);
 	}
 
 	// Note: eecircuit-engine doesn't support .save directive, so we calculate
@@ -160,14 +173,10 @@ export function generateNetlist(schematic: Schematic, title: string = 'Untitled
 
 	// Collect model names referenced by components (diodes, BJTs, MOSFETs)
 	const referencedModels = new Set<string>();
-	for (const comp of schematic.components) {
-		if (comp.type === 'diode' || comp.type === 'npn' || comp.type === 'pnp' || comp.type === 'nmos' || comp.type === 'pmos') {
-			const modelName = comp.attributes['Value'];
-			if (modelName) {
-				referencedModels.add(modelName);
-			}
-		}
-	}
+	collectModelNames(schematic.components, referencedModels);
+
+	// Add .subckt definitions for the blocks in use (their models count as referenced too)
+	result.subcircuits = generateSubcircuits(schematic, expandable, referencedModels, result);
 
 	// Track which models are already defined in schematic
 	const definedModels = new Set<string>();
@@ -214,18 +223,323 @@ export function generateNetlist(schematic: Schematic, title: string = 'Untitled
 		result.directives.push('.tran 1u 10m');
 	}
 
+	// Kept in the netlist text; the simulation runner expands it into one run per value
+	if (stepDirective) {
+		result.directives.push(stepDirective.text);
+	}
+
+	// Measurements are evaluated on every run's result
+	for (const dir of schematic.directives || []) {
+		if (dir.type === 'meas') {
+			result.directives.push(dir.text);
+		}
+	}
+
 	result.directives.push('.end');
 
 	return result;
 }
 
+/** Map "componentId:pinName" to the name of the net the pin is on */
+function buildPinToNet(connectivity: ReturnType<typeof analyzeConnectivity>): Map<string, string> {
+	const pinToNet = new Map<string, string>();
+	for (const pc of connectivity.pinConnections) {
+		const key = `${pc.componentId}:${pc.pinName}`;
+		const net = connectivity.nets.find(n => n.id === pc.netId);
+		pinToNet.set(key, net?.name || '?');
+	}
+	return pinToNet;
+}
+
+/** Component types whose value starts with a .model name */
+const MODEL_TYPES: Component['type'][] = [...DIODE_TYPES, 'npn', 'pnp', 'njf', 'pjf', 'nmos', 'pmos', 'vswitch', 'iswitch'];
+
+/** SPICE letters of custom symbols whose value starts with a .model name */
+const MODEL_PREFIXES = ['D', 'Q', 'J', 'M', 'S'];
+
+/** Add the model names used by diodes, transistors and switches to the set */
+function collectModelNames(components: Component[], models: Set<string>): void {
+	for (const comp of components) {
+		if (MODEL_TYPES.includes(comp.type) || (comp.type === 'custom' && MODEL_PREFIXES.includes(comp.attributes['Prefix'] ?? ''))) {
+			// Switches may be followed by ON or OFF, transistors by an area factor
+			const modelName = (comp.attributes['Value'] || '').split(/\s+/)[0];
+			if (modelName) {
+				models.add(modelName);
+			}
+		}
+	}
+}
+
+/** Subcircuit names instantiated by X lines of a raw .subckt block */
+function findSubcircuitCalls(text: string, known: Map<string, SubcircuitDef>): string[] {
+	const names: string[] = [];
+	for (const line of text.split('\n')) {
+		const trimmed = line.trim();
+		if (!/^x/i.test(trimmed)) continue;
+		// Subcircuit name is the last token before any name=value parameters
+		const tokens = trimmed.split(/\s+/).filter(t => !t.includes('=') && t.toLowerCase() !== 'params:');
+		const name = tokens[tokens.length - 1];
+		if (name && known.has(name.toUpperCase())) {
+			names.push(name);
+		}
+	}
+	return names;
+}
+
+/** True for custom symbols bound to a subcircuit */
+function isSubcircuitSymbol(comp: Component): boolean {
+	return comp.type === 'custom' && comp.attributes['Prefix'] === 'X';
+}
+
+/**
+ * Generate .subckt ... .ends blocks for every subcircuit used by the schematic,
+ * following nested instances. Each definition is emitted once.
+ */
+function generateSubcircuits(
+	schematic: Schematic,
+	parameters: Record<string, string>,
+	referencedModels: Set<string>,
+	result: GeneratedNetlist
+): string[] {
+	// Imported library subcircuits, overridden by the schematic's own
+	const defs = new Map<string, SubcircuitDef>();
+	for (const def of getUserSubcircuits()) {
+		defs.set(def.name.toUpperCase(), def);
+	}
+	for (const def of schematic.subcircuits ?? []) {
+		defs.set(def.name.toUpperCase(), def);
+	}
+
+	const blocks: string[] = [];
+	const emitted = new Set<string>();
+	const pending: { name: string; usedBy: string }[] = [];
+
+	const queueInstances = (components: Component[]) => {
+		for (const comp of components) {
+			if (comp.type === 'subckt' || isSubcircuitSymbol(comp)) {
+				pending.push({ name: comp.attributes['Value'] || '', usedBy: comp.attributes['InstName'] || comp.id });
+			} else if (comp.type === 'opamp' || comp.type === 'comparator') {
+				// Built-in models are added once; other names are subcircuits of the schematic (checkSource reports unknown ones)
+				const variant = getAmplifierVariant(comp);
+				const name = variant?.name ?? comp.attributes['Value'] ?? '';
+				if (variant && !emitted.has(name.toUpperCase())) {
+					emitted.add(name.toUpperCase());
+					blocks.push(variant.text);
+				} else if (!variant && defs.has(name.toUpperCase())) {
+					pending.push({ name, usedBy: comp.attributes['InstName'] || comp.id });
+				}
+			}
+		}
+	};
+	queueInstances(schematic.components);
+
+	while (pending.length > 0) {
+		const { name, usedBy } = pending.shift()!;
+		const key = name.toUpperCase();
+		if (emitted.has(key)) continue;
+		emitted.add(key);
+
+		const def = defs.get(key);
+		if (!def) {
+			result.errors.push(`Subcircuit "${name}" used by ${usedBy} is not defined`);
+			continue;
+		}
+
+		if (def.text) {
+			blocks.push(def.text.trim());
+			for (const called of findSubcircuitCalls(def.text, defs)) {
+				pending.push({ name: called, usedBy: def.name });
+			}
+			continue;
+		}
+
+		const body = def.schematic ?? { components: [], wires: [], junctions: [] };
+		const connectivity = analyzeConnectivity({ ...body, parameters });
+		for (const err of connectivity.errors) {
+			if (err.startsWith('Warning:')) {
+				result.warnings.push(`Warning: ${def.name}: ${err.slice('Warning:'.length).trim()}`);
+			} else {
+				result.errors.push(`${def.name}: ${err}`);
+			}
+		}
+
+		const netNames = new Set(connectivity.nets.map(n => n.name.toLowerCase()));
+		for (const port of def.ports) {
+			if (!netNames.has(port.toLowerCase())) {
+				result.warnings.push(`Warning: Port ${port} of subcircuit ${def.name} has no net label inside it`);
+			}
+		}
+
+		const pinToNet = buildPinToNet(connectivity);
+		const lines = [`.subckt ${def.name} ${def.ports.join(' ')}`];
+		for (const comp of body.components) {
+			if (comp.type === 'ground') continue;
+			const elements = componentToSpiceElements(comp, pinToNet, parameters);
+			if (elements) {
+				lines.push(...elements.map(spiceComponentToLine));
+			} else {
+				result.errors.push(`Failed to generate SPICE for ${comp.attributes['InstName'] || comp.id} in ${def.name}`);
+			}
+			const problem = checkSource(comp, body.components, schematic.subcircuits);
+			if (problem) result.errors.push(`${def.name}: ${problem}`);
+		}
+		lines.push(`.ends ${def.name}`);
+		blocks.push(lines.join('\n'));
+
+		collectModelNames(body.components, referencedModels);
+		queueInstances(body.components);
+	}
+
+	return blocks;
+}
+
+/**
+ * Imported library definitions that components use and the schematic lacks
+ * Copied into the schematic when the components are placed or edited, so saved files and
+ * share links carry them; subcircuits called by a copied .subckt block come along.
+ */
+export function getLibraryDefinitions(components: Component[], schematic: Schematic): { models: SpiceModel[]; subcircuits: SubcircuitDef[] } {
+	const defined = (list: { name: string }[] | undefined, name: string) =>
+		(list ?? []).some(d => d.name.toUpperCase() === name.toUpperCase());
+
+	const subcircuits: SubcircuitDef[] = [];
+	const pending: string[] = [];
+	for (const comp of components) {
+		const value = comp.attributes['Value'] || '';
+		if (comp.type === 'subckt' || isSubcircuitSymbol(comp) || ((comp.type === 'opamp' || comp.type === 'comparator') && !getAmplifierVariant(comp))) {
+			pending.push(value);
+		}
+	}
+	const library = new Map(getUserSubcircuits().map(def => [def.name.toUpperCase(), def]));
+	while (pending.length > 0) {
+		const name = pending.shift()!;
+		if (defined(schematic.subcircuits, name) || defined(subcircuits, name)) continue;
+		const def = findUserSubcircuit(name);
+		if (!def) continue;
+		subcircuits.push(JSON.parse(JSON.stringify(def)));
+		pending.push(...findSubcircuitCalls(def.text ?? '', library));
+	}
+
+	const models: SpiceModel[] = [];
+	const names = new Set<string>();
+	collectModelNames(components, names);
+	for (const name of names) {
+		const model = findUserModel(name);
+		if (!model || defined(schematic.models, name) || defined(models, name)) continue;
+		models.push({ name: model.name, type: model.type, params: model.params, description: model.description });
+	}
+
+	return { models, subcircuits };
+}
+
+/** Built-in model subcircuit of an op-amp or comparator, for its supply pins (undefined for other models) */
+function getAmplifierVariant(comp: Component): AmplifierVariant | undefined {
+	if (comp.type !== 'opamp' && comp.type !== 'comparator') return undefined;
+	const model = findAmplifierModel(comp.type, comp.attributes['Value'] || DEFAULT_VALUES[comp.type]);
+	return hasSupplyPins(comp) ? model?.rails : model?.plain;
+}
+
+/**
+ * Check what ngspice would reject in a dependent or behavioral source: F and H
+ * sources (and W switches) must name a voltage source of the same circuit, B sources need a valid
+ * expression, op-amps and comparators a model matching their pins. Couplings must
+ * name inductors of the same circuit.
+ */
+function checkSource(comp: Component, components: Component[], subcircuits: SubcircuitDef[] = []): string | null {
+	const name = comp.attributes['InstName'] || comp.id;
+	if (comp.type === 'ccvs' || comp.type === 'cccs' || comp.type === 'iswitch') {
+		const control = comp.attributes['Control']?.trim();
+		if (!control) return `${name} has no controlling voltage source`;
+		const found = components.some(c => c.type === 'voltage' && c.attributes['InstName']?.toUpperCase() === control.toUpperCase());
+		return found ? null : `${name} is controlled by ${control}, which is not a voltage source in the circuit`;
+	}
+	if (comp.type === 'behavioral') {
+		const problem = checkBehavioralValue(comp.attributes['Value'] || '');
+		return problem ? `${name}: ${problem}` : null;
+	}
+	if (comp.type === 'coupling') {
+		const inductors = components.filter(c => c.type === 'inductor').map(c => c.attributes['InstName'] || '');
+		const problem = checkCoupling(comp.attributes['Value'] || DEFAULT_VALUES.coupling, inductors);
+		return problem ? `${name}: ${problem}` : null;
+	}
+	if (comp.type === 'transformer') {
+		const windings = transformerWindings(name);
+		const problem = checkCoupling(`${windings.join(' ')} ${parseTransformerValue(comp.attributes['Value'] || '').k}`, windings);
+		return problem ? `${name}: ${problem}` : null;
+	}
+	if (comp.type === 'opamp' || comp.type === 'comparator') {
+		const modelName = comp.attributes['Value'] || DEFAULT_VALUES[comp.type];
+		const supply = hasSupplyPins(comp);
+		const model = findAmplifierModel(comp.type, modelName);
+		if (model) {
+			if (supply ? model.rails : model.plain) return null;
+			return `${name}: model ${model.name} ${supply ? 'has no supply pins' : 'needs the supply pins (check Supply pins)'}`;
+		}
+		const kind = comp.type === 'opamp' ? 'op-amp' : 'comparator';
+		const def = subcircuits.find(d => d.name.toUpperCase() === modelName.toUpperCase()) ?? findUserSubcircuit(modelName);
+		if (!def) return `${name} uses ${modelName}, which is neither a built-in ${kind} model nor a subcircuit in the schematic`;
+		const ports = supply ? AMPLIFIER_SUPPLY_PIN_ORDER : PIN_ORDER[comp.type];
+		if (def.ports.length !== ports.length) {
+			return `${name}: subcircuit ${def.name} has ${def.ports.length} ports, the ${kind} ${supply ? 'with' : 'without'} supply pins needs ${ports.length} (${ports.join(' ')})`;
+		}
+	}
+	if (isSubcircuitSymbol(comp)) {
+		// A missing subcircuit is reported with the .subckt blocks
+		const subckt = comp.attributes['Value'] || '';
+		const def = subcircuits.find(d => d.name.toUpperCase() === subckt.toUpperCase()) ?? findUserSubcircuit(subckt);
+		if (def && def.ports.length !== comp.pins.length) {
+			return `${name}: subcircuit ${def.name} has ${def.ports.length} ports, the ${comp.attributes['Symbol'] || 'custom'} symbol has ${comp.pins.length} pins`;
+		}
+	}
+	return null;
+}
+
+/**
+ * SPICE elements of a component: one for most, a K line per coupled pair for couplings,
+ * and two windings plus their K line for transformers
+ */
+function componentToSpiceElements(
+	comp: Component,
+	pinToNet: Map<string, string>,
+	parameters: Record<string, string>
+): SpiceComponent[] | null {
+	const instName = comp.attributes['InstName'] || comp.id;
+
+	if (comp.type === 'coupling') {
+		const { inductors, coefficient } = parseCoupling(comp.attributes['Value'] || DEFAULT_VALUES.coupling);
+		const pairs = couplingPairs(inductors);
+		const value = expandParameters(coefficient, parameters);
+		return pairs.map((nodes, i) => ({
+			prefix: 'K',
+			name: pairs.length === 1 ? instName : `${instName}_${i + 1}`,
+			nodes,
+			value
+		}));
+	}
+
+	if (comp.type === 'transformer') {
+		const { lp, ls, k } = parseTransformerValue(comp.attributes['Value'] || '');
+		const [primary, secondary] = transformerWindings(instName);
+		const net = (pin: string) => pinToNet.get(`${comp.id}:${pin}`) || '?';
+		return [
+			{ prefix: 'L', name: primary, nodes: [net('P1'), net('P2')], value: expandParameters(lp, parameters) },
+			{ prefix: 'L', name: secondary, nodes: [net('S1'), net('S2')], value: expandParameters(ls, parameters) },
+			{ prefix: 'K', name: `K${instName}`, nodes: [primary, secondary], value: expandParameters(k, parameters) }
+		];
+	}
+
+	const spiceComp = componentToSpice(comp, pinToNet, parameters);
+	return spiceComp ? [spiceComp] : null;
+}
+
 /** Convert a component to SPICE format */
 function componentToSpice(
 	comp: Component,
 	pinToNet: Map<string, string>,
 	parameters: Record<string, string> = {}
 ): SpiceComponent | null {
-	const prefix = COMPONENT_PREFIX[comp.type];
+	// Custom symbols carry their SPICE letter
+	const prefix = comp.type === 'custom' ? comp.attributes['Prefix'] : COMPONENT_PREFIX[comp.type];
 	if (prefix === undefined || prefix === '') return null;
 
 	const instName = comp.attributes['InstName'] || `${prefix}?`;
@@ -234,13 +548,17 @@ function componentToSpice(
 	// Expand parameter references like {CC} -> 1u
 	const value = expandParameters(rawValue, parameters);
 
-	// Get node names in correct order
-	const pinOrder = PIN_ORDER[comp.type];
+	// Get node names in correct order (subcircuit instances and custom symbols follow their own pins)
+	const pinOrder = comp.type === 'subckt' || comp.type === 'custom'
+		? comp.pins.map(p => p.name)
+		: hasSupplyPins(comp) ? AMPLIFIER_SUPPLY_PIN_ORDER : PIN_ORDER[comp.type];
 	if (!pinOrder) return null;
 
+	// MOSFETs without a bulk pin have their bulk on the source
+	const isMosfet = comp.type === 'nmos' || comp.type === 'pmos';
 	const nodes: string[] = [];
 	for (const pinName of pinOrder) {
-		const key = `${comp.id}:${pinName}`;
+		const key = `${comp.id}:${isMosfet && pinName === 'B' && !hasBulkPin(comp) ? 'S' : pinName}`;
 		const netName = pinToNet.get(key);
 		if (netName) {
 			nodes.push(netName);
@@ -249,9 +567,9 @@ function componentToSpice(
 		}
 	}
 
-	// For diodes, the value is the model name, add it as 'extra'
+	// For diodes (and the zener, Schottky, LED and varactor symbols), the value is the model name, add it as 'extra'
 	// SPICE format: Dname node1 node2 modelname
-	if (comp.type === 'diode') {
+	if (DIODE_TYPES.includes(comp.type)) {
 		return {
 			prefix,
 			name: instName,
@@ -261,6 +579,43 @@ function componentToSpice(
 		};
 	}
 
+	// F and H sources: Fname n+ n- Vcontrol gain, W switches: Wname n+ n- Vcontrol model
+	if (comp.type === 'ccvs' || comp.type === 'cccs' || comp.type === 'iswitch') {
+		return {
+			prefix,
+			name: instName,
+			nodes,
+			value: `${comp.attributes['Control'] || '?'} ${value}`
+		};
+	}
+
+	// MOSFETs: Mname D G S B model [W= L= M=], instance parameters set on the component
+	if (isMosfet) {
+		const params = MOSFET_PARAMETERS
+			.filter(p => comp.attributes[p])
+			.map(p => `${p}=${expandParameters(comp.attributes[p], parameters)}`);
+		return {
+			prefix,
+			name: instName,
+			nodes,
+			value: [value, ...params].join(' ')
+		};
+	}
+
+	// Op-amps and comparators: Xname nodes subckt [param=value ...], parameters set on the component
+	if (comp.type === 'opamp' || comp.type === 'comparator') {
+		const variant = getAmplifierVariant(comp);
+		const params = (variant?.parameters ?? [])
+			.filter(p => comp.attributes[p])
+			.map(p => `${p}=${expandParameters(comp.attributes[p], parameters)}`);
+		return {
+			prefix,
+			name: instName,
+			nodes,
+			value: [variant?.name ?? value, ...params].join(' ')
+		};
+	}
+
 	return {
 		prefix,
 		name: instName,
@@ -269,6 +624,16 @@ function componentToSpice(
 	};
 }
 
+/** Format one SPICE component line */
+function spiceComponentToLine(comp: SpiceComponent): string {
+	const nodePart = comp.nodes.join(' ');
+	let line = `${comp.name} ${nodePart} ${comp.value}`;
+	if (comp.extra) {
+		line += ` ${comp.extra}`;
+	}
+	return line;
+}
+
 /** Convert generated netlist to text */
 export function netlistToText(netlist: GeneratedNetlist): string {
 	const lines: string[] = [];
@@ -291,15 +656,16 @@ export function netlistToText(netlist: GeneratedNetlist): string {
 	
 	// Components
 	for (const comp of netlist.components) {
-		const nodePart = comp.nodes.join(' ');
-		let line = `${comp.name} ${nodePart} ${comp.value}`;
-		if (comp.extra) {
-			line += ` ${comp.extra}`;
-		}
-		lines.push(line);
+		lines.push(spiceComponentToLine(comp));
 	}
 	
 	if (netlist.components.length > 0) lines.push('');
+
+	// Subcircuit definitions
+	for (const block of netlist.subcircuits) {
+		lines.push(block);
+		lines.push('');
+	}
 	
 	// Directives
 	for (const dir of netlist.directives) {
@@ -320,8 +686,12 @@ export function generateNodeLabels(schematic: Schematic): import('../schematic/t
 	const connectivity = analyzeConnectivity(schematic);
 	const labels: import('../schematic/types').NodeLabel[] = [];
 
+	// Nets named by a user net label already show their name on the canvas
+	const userNames = new Set((schematic.netLabels ?? []).map(l => l.name.toLowerCase()));
+
 	for (const net of connectivity.nets) {
 		if (net.points.length === 0) continue;
+		if (!net.isGround && userNames.has(net.name.toLowerCase())) continue;
 
 		// Find a good position for the label - prefer wire endpoints
 		// Use the first point as a simple heuristic
@@ -0,0 +1,390 @@
+/**
+ * Netlist import
+ * Turns a SPICE netlist into an editable schematic: elkjs places the
+ * components (layered, top to bottom) and every net is drawn as a horizontal
+ * trunk with vertical drops to its pins. Each wire is checked so it never
+ * touches another net's wires or pins; a pin that cannot be routed gets a net
+ * label instead. Nets keep their netlist names through net labels.
+ */
+
+import type { ElkExtendedEdge, ElkNode } from 'elkjs/lib/elk-api';
+import type { Component, NetLabel, Point, Schematic, SpiceDirective, Wire } from '../schematic/types';
+import { COMPONENT_DEFS, getComponentDef, getMosfetPins } from '../schematic/component-defs';
+import { getSubcircuitPins } from '../schematic/subcircuits';
+import { pointOnWire } from './connectivity';
+import { parseSpiceNetlist, type ParsedNetlist, type UnmappedLine } from './netlist-parser';
+import { PIN_ORDER } from './types';
+
+/** Result of importing a netlist */
+export interface NetlistImport {
+	title: string;
+	schematic: Schematic;
+	unmapped: UnmappedLine[];
+}
+
+const GRID = 10;
+
+/** Horizontal offsets tried for a pin's drop, nearest first */
+const DROP_OFFSETS = [0, ...Array.from({ length: 20 }, (_, i) => [(i + 1) * GRID, -(i + 1) * GRID]).flat()];
+
+/** Trunk heights tried per net */
+const MAX_TRUNKS = 60;
+
+const LAYOUT_OPTIONS: Record<string, string> = {
+	'elk.algorithm': 'layered',
+	'elk.direction': 'DOWN',
+	'elk.edgeRouting': 'ORTHOGONAL',
+	'elk.layered.spacing.nodeNodeBetweenLayers': '80',
+	'elk.spacing.nodeNode': '60',
+	'elk.spacing.edgeEdge': '10',
+	'elk.spacing.edgeNode': '20',
+	'elk.layered.crossingMinimization.strategy': 'LAYER_SWEEP',
+	'elk.layered.nodePlacement.strategy': 'BRANDES_KOEPF',
+	'elk.layered.considerModelOrder.strategy': 'NODES_AND_EDGES'
+};
+
+/** A pin of a placed component, with the net it belongs to */
+interface NetPin extends Point {
+	net: string;
+}
+
+/** Wire with the net it belongs to */
+type NetWire = Wire & { net: string };
+
+/** Component body, which wires must not cross */
+interface Box {
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+}
+
+const snap = (v: number) => Math.round(v / GRID) * GRID;
+
+function isGroundNode(node: string): boolean {
+	return node === '0' || node.toLowerCase() === 'gnd';
+}
+
+/** Body of a component relative to its origin, grown to include its pins */
+function localBounds(comp: Component): Box {
+	const def = getComponentDef(comp)!;
+	const box = { minX: -def.width / 2, minY: -def.height / 2, maxX: def.width / 2, maxY: def.height / 2 };
+	for (const pin of comp.pins) {
+		box.minX = Math.min(box.minX, pin.x);
+		box.maxX = Math.max(box.maxX, pin.x);
+		box.minY = Math.min(box.minY, pin.y);
+		box.maxY = Math.max(box.maxY, pin.y);
+	}
+	return box;
+}
+
+/** Build the components of a parsed netlist (at the origin) and the net of each pin */
+function buildComponents(parsed: ParsedNetlist): { components: Component[]; pinNets: Map<string, string>; netNames: Map<string, string> } {
+	const components: Component[] = [];
+	const pinNets = new Map<string, string>();
+	const netNames = new Map<string, string>();
+
+	const netKey = (node: string) => {
+		const key = isGroundNode(node) ? '0' : node.toLowerCase();
+		if (!netNames.has(key)) netNames.set(key, isGroundNode(node) ? '0' : node);
+		return key;
+	};
+
+	for (const element of parsed.elements) {
+		const subckt = element.type === 'subckt'
+			? parsed.subcircuits.find(s => s.name === element.value)
+			: undefined;
+		const pins = subckt
+			? getSubcircuitPins(subckt.ports)
+			: element.type === 'nmos' || element.type === 'pmos'
+				? getMosfetPins(element.type, element.nodes.length === 4)
+				: COMPONENT_DEFS[element.type].pins.map((p, i) => ({ ...p, id: `${i}` }));
+		const order = subckt ? subckt.ports : PIN_ORDER[element.type];
+
+		const comp: Component = {
+			id: crypto.randomUUID(),
+			type: element.type,
+			x: 0,
+			y: 0,
+			rotation: 0,
+			mirror: false,
+			attributes: element.control
+				? { InstName: element.name, Value: element.value, Control: element.control, ...element.parameters }
+				: { InstName: element.name, Value: element.value, ...element.parameters },
+			pins
+		};
+		element.nodes.forEach((node, i) => pinNets.set(`${comp.id}:${order[i]}`, netKey(node)));
+		components.push(comp);
+	}
+
+	// One ground symbol for the whole ground net
+	if ([...pinNets.values()].includes('0')) {
+		const ground: Component = {
+			id: crypto.randomUUID(),
+			type: 'ground',
+			x: 0,
+			y: 0,
+			rotation: 0,
+			mirror: false,
+			attributes: {},
+			pins: COMPONENT_DEFS.ground.pins.map((p, i) => ({ ...p, id: `${i}` }))
+		};
+		pinNets.set(`${ground.id}:${ground.pins[0].name}`, '0');
+		components.push(ground);
+	}
+
+	return { components, pinNets, netNames };
+}
+
+/** Place the components with elkjs, connecting the pins of every net */
+async function placeComponents(components: Component[], pinNets: Map<string, string>): Promise<void> {
+	const { default: ELK } = await import('elkjs/lib/elk.bundled.js');
+
+	const bounds = new Map(components.map(c => [c.id, localBounds(c)]));
+	const children: ElkNode[] = components.map(comp => {
+		const box = bounds.get(comp.id)!;
+		return {
+			id: comp.id,
+			width: box.maxX - box.minX,
+			height: box.maxY - box.minY,
+			layoutOptions: { 'elk.portConstraints': 'FIXED_POS' },
+			ports: comp.pins.map(pin => ({
+				id: `${comp.id}:${pin.name}`,
+				x: pin.x - box.minX,
+				y: pin.y - box.minY,
+				width: 1,
+				height: 1
+			}))
+		};
+	});
+
+	// Star of edges from the first pin of each net
+	const edges: ElkExtendedEdge[] = [];
+	const firstPin = new Map<string, string>();
+	for (const [port, net] of pinNets) {
+		const first = firstPin.get(net);
+		if (first) {
+			edges.push({ id: `e${edges.length}`, sources: [first], targets: [port] });
+		} else {
+			firstPin.set(net, port);
+		}
+	}
+
+	const layout = await new ELK().layout({ id: 'root', layoutOptions: LAYOUT_OPTIONS, children, edges });
+
+	for (const node of layout.children ?? []) {
+		const comp = components.find(c => c.id === node.id);
+		const box = bounds.get(node.id);
+		if (!comp || !box) continue;
+		comp.x = snap((node.x ?? 0) - box.minX);
+		comp.y = snap((node.y ?? 0) - box.minY);
+	}
+}
+
+function isHorizontal(w: Wire): boolean {
+	return w.y1 === w.y2;
+}
+
+/** Two wires on the same line that share at least a point */
+function overlaps(a: Wire, b: Wire): boolean {
+	if (isHorizontal(a) && isHorizontal(b) && a.y1 === b.y1) {
+		return Math.max(a.x1, a.x2) >= Math.min(b.x1, b.x2) && Math.min(a.x1, a.x2) <= Math.max(b.x1, b.x2);
+	}
+	if (!isHorizontal(a) && !isHorizontal(b) && a.x1 === b.x1) {
+		return Math.max(a.y1, a.y2) >= Math.min(b.y1, b.y2) && Math.min(a.y1, a.y2) <= Math.max(b.y1, b.y2);
+	}
+	return false;
+}
+
+/** Check if a wire passes through the inside of a box (running along its edge is fine) */
+function crossesBox(w: Wire, box: Box): boolean {
+	const minX = Math.min(w.x1, w.x2);
+	const maxX = Math.max(w.x1, w.x2);
+	const minY = Math.min(w.y1, w.y2);
+	const maxY = Math.max(w.y1, w.y2);
+	return minX < box.maxX && maxX > box.minX && minY < box.maxY && maxY > box.minY;
+}
+
+/** Wire router: keeps what has been drawn so far and checks new wires against it */
+class Router {
+	readonly wires: NetWire[] = [];
+
+	constructor(private pins: NetPin[], private boxes: Box[]) {}
+
+	/** Check if a wire can be added to a net without touching anything else */
+	fits(wire: Wire, net: string): boolean {
+		const ends = [{ x: wire.x1, y: wire.y1 }, { x: wire.x2, y: wire.y2 }];
+		if (this.boxes.some(box => crossesBox(wire, box))) return false;
+		if (this.pins.some(pin => pin.net !== net && pointOnWire(pin, wire))) return false;
+		return !this.wires.some(other => other.net !== net && (
+			overlaps(wire, other) ||
+			ends.some(p => pointOnWire(p, other)) ||
+			pointOnWire({ x: other.x1, y: other.y1 }, wire) ||
+			pointOnWire({ x: other.x2, y: other.y2 }, wire)
+		));
+	}
+
+	/**
+	 * Route a net along a trunk at height y
+	 * Returns the wires, the x of every drop on the trunk and the pins that could not be reached.
+	 */
+	tryTrunk(net: string, pins: NetPin[], y: number): { wires: Wire[]; drops: number[]; unrouted: NetPin[] } | null {
+		const wires: Wire[] = [];
+		const drops = new Set<number>();
+		const unrouted: NetPin[] = [];
+		const wire = (x1: number, y1: number, x2: number, y2: number): Wire => ({ id: '', x1, y1, x2, y2 });
+
+		for (const pin of pins) {
+			if (pin.y === y) {
+				drops.add(pin.x);
+				continue;
+			}
+			let routed = false;
+			for (const offset of DROP_OFFSETS) {
+				const x = pin.x + offset;
+				const path = [wire(x, pin.y, x, y)];
+				if (offset !== 0) path.unshift(wire(pin.x, pin.y, x, pin.y));
+				if (path.every(w => this.fits(w, net))) {
+					wires.push(...path);
+					drops.add(x);
+					routed = true;
+					break;
+				}
+			}
+			if (!routed) unrouted.push(pin);
+		}
+
+		const xs = [...drops].sort((a, b) => a - b);
+		for (let i = 1; i < xs.length; i++) {
+			const segment = wire(xs[i - 1], y, xs[i], y);
+			if (!this.fits(segment, net)) return null;
+			wires.push(segment);
+		}
+		return { wires, drops: xs, unrouted };
+	}
+
+	/**
+	 * Route a net, trying trunk heights from the shortest total wiring outwards
+	 * Returns the routed wires (already added) and the pins left for net labels.
+	 */
+	route(net: string, pins: NetPin[]): { drops: number[]; trunkY: number; unrouted: NetPin[] } {
+		const ys = pins.map(p => p.y);
+		const candidates: number[] = [];
+		for (let y = snap(Math.min(...ys)) - 200; y <= snap(Math.max(...ys)) + 200; y += GRID) {
+			candidates.push(y);
+		}
+		const cost = (y: number) => ys.reduce((sum, py) => sum + Math.abs(py - y), 0);
+		candidates.sort((a, b) => cost(a) - cost(b) || a - b);
+
+		let best: { wires: Wire[]; drops: number[]; unrouted: NetPin[]; y: number } | null = null;
+		for (const y of candidates.slice(0, MAX_TRUNKS)) {
+			const attempt = this.tryTrunk(net, pins, y);
+			if (!attempt) continue;
+			if (!best || attempt.unrouted.length < best.unrouted.length) best = { ...attempt, y };
+			if (attempt.unrouted.length === 0) break;
+		}
+
+		if (!best || pins.length - best.unrouted.length < 2) return { drops: [], trunkY: 0, unrouted: pins };
+		for (const w of best.wires) {
+			this.wires.push({ ...w, id: crypto.randomUUID(), net });
+		}
+		return { drops: best.drops, trunkY: best.y, unrouted: best.unrouted };
+	}
+}
+
+/** Junction dots where three or more wire ends and pins meet */
+function findJunctions(wires: Wire[], pins: Point[]): Schematic['junctions'] {
+	const counts = new Map<string, number>();
+	const add = (x: number, y: number) => counts.set(`${x},${y}`, (counts.get(`${x},${y}`) ?? 0) + 1);
+	for (const w of wires) {
+		add(w.x1, w.y1);
+		add(w.x2, w.y2);
+	}
+	for (const p of pins) {
+		if (counts.has(`${p.x},${p.y}`)) add(p.x, p.y);
+	}
+	return [...counts].filter(([, n]) => n >= 3).map(([key]) => {
+		const [x, y] = key.split(',').map(Number);
+		return { id: crypto.randomUUID(), x, y };
+	});
+}
+
+/** Directives for the parsed parameters, analysis, models and measurements, stacked below the circuit */
+function buildDirectives(parsed: ParsedNetlist, x: number, y: number): SpiceDirective[] {
+	const texts: { type: SpiceDirective['type']; text: string }[] = [
+		...Object.entries(parsed.parameters).map(([name, value]) => ({ type: 'param' as const, text: `.param ${name}=${value}` })),
+		...parsed.directives.filter(d => d.type !== 'meas'),
+		...parsed.models.map(m => ({ type: 'model' as const, text: `.model ${m.name} ${m.type}(${m.params})` })),
+		...parsed.directives.filter(d => d.type === 'meas')
+	];
+	return texts.map((d, i) => ({ id: crypto.randomUUID(), ...d, x, y: y + i * 20 }));
+}
+
+/**
+ * Import a SPICE netlist as a schematic
+ * The layout runs elkjs, so this is async. Lines the schematic cannot hold are
+ * returned in unmapped, with their line numbers.
+ */
+export async function importNetlist(text: string): Promise<NetlistImport> {
+	const parsed = parseSpiceNetlist(text);
+	const { components, pinNets, netNames } = buildComponents(parsed);
+
+	if (components.length > 0) {
+		await placeComponents(components, pinNets);
+	}
+
+	// Absolute pin positions and component bodies
+	const pinsByNet = new Map<string, NetPin[]>();
+	const allPins: NetPin[] = [];
+	const boxes: Box[] = [];
+	for (const comp of components) {
+		const def = getComponentDef(comp)!;
+		boxes.push({
+			minX: comp.x - def.width / 2,
+			maxX: comp.x + def.width / 2,
+			minY: comp.y - def.height / 2,
+			maxY: comp.y + def.height / 2
+		});
+		for (const pin of comp.pins) {
+			const net = pinNets.get(`${comp.id}:${pin.name}`);
+			if (net === undefined) continue;
+			const p = { x: comp.x + pin.x, y: comp.y + pin.y, net };
+			allPins.push(p);
+			pinsByNet.set(net, [...(pinsByNet.get(net) ?? []), p]);
+		}
+	}
+
+	// Route the biggest nets first, while there is the most room
+	const router = new Router(allPins, boxes);
+	const netLabels: NetLabel[] = [];
+	const label = (net: string, p: Point) => netLabels.push({ id: crypto.randomUUID(), name: netNames.get(net) ?? net, x: p.x, y: p.y });
+	const nets = [...pinsByNet].sort((a, b) => b[1].length - a[1].length);
+	for (const [net, pins] of nets) {
+		const { drops, trunkY, unrouted } = pins.length > 1
+			? router.route(net, [...pins].sort((a, b) => a.x - b.x))
+			: { drops: [], trunkY: 0, unrouted: pins };
+		if (net !== '0' && drops.length > 0) label(net, { x: drops[0], y: trunkY });
+		for (const pin of unrouted) {
+			label(net, pin);
+		}
+	}
+
+	const wires: Wire[] = router.wires.map(({ net: _, ...w }) => w);
+	const minX = Math.min(...boxes.map(b => b.minX), ...wires.map(w => Math.min(w.x1, w.x2)));
+	const maxY = Math.max(...boxes.map(b => b.maxY), ...wires.map(w => Math.max(w.y1, w.y2)));
+
+	return {
+		title: parsed.title,
+		schematic: {
+			components,
+			wires,
+			junctions: findJunctions(wires, allPins),
+			netLabels,
+			directives: buildDirectives(parsed, components.length > 0 ? snap(minX) : 0, components.length > 0 ? snap(maxY) + 4 * GRID : 0),
+			parameters: parsed.parameters,
+			models: parsed.models,
+			subcircuits: parsed.subcircuits
+		},
+		unmapped: parsed.unmapped
+	};
+}
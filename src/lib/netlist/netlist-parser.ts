@@ -0,0 +1,385 @@
+/**
+ * SPICE netlist parser
+ * Reads a .cir/.net netlist into the elements, models, parameters and
+ * directives a schematic can hold. Anything a schematic cannot represent is
+ * listed with its line number instead of being dropped silently.
+ */
+
+import type { ComponentType, DirectiveType, SpiceModel, SubcircuitDef } from '../schematic/types';
+import { parseSubcircuitText } from '../schematic/subcircuits';
+import { findModel } from '../models';
+import { parseMeasDirective } from '../simulation/measure';
+import { parseStepDirective } from './step';
+import { MOSFET_PARAMETERS, DIODE_TYPES } from './types';
+
+/** Element line mapped to a schematic component */
+export interface ParsedElement {
+	line: number;          // 1-based line number in the netlist text
+	name: string;          // Instance name, e.g. "R1"
+	type: ComponentType;
+	nodes: string[];       // Node names in PIN_ORDER (subcircuits: port order)
+	value: string;         // Value attribute: value, source spec or model name
+	control?: string;      // Controlling voltage source of F and H sources
+	parameters?: Record<string, string>;  // Instance parameters kept as attributes (MOSFET W, L, M)
+}
+
+/** Line (or block) that has no place in a schematic */
+export interface UnmappedLine {
+	line: number;
+	text: string;
+	reason: string;
+}
+
+/** Parsed netlist */
+export interface ParsedNetlist {
+	title: string;
+	elements: ParsedElement[];
+	parameters: Record<string, string>;
+	models: SpiceModel[];
+	subcircuits: SubcircuitDef[];
+	directives: { type: DirectiveType; text: string }[];
+	unmapped: UnmappedLine[];
+}
+
+/** Number of nodes per element prefix (before the value or model) */
+const NODE_COUNT: Record<string, number> = {
+	R: 2, C: 2, L: 2, V: 2, I: 2, D: 2, Q: 3, J: 3, M: 4, E: 4, G: 4, F: 2, H: 2, B: 2, S: 4, W: 2, T: 4
+};
+
+const SIMPLE_TYPES: Record<string, ComponentType> = {
+	R: 'resistor', C: 'capacitor', L: 'inductor', V: 'voltage', I: 'current', D: 'diode',
+	E: 'vcvs', G: 'vccs', B: 'behavioral', S: 'vswitch', T: 'tline'
+};
+
+const ANALYSES: DirectiveType[] = ['tran', 'ac', 'dc', 'op'];
+
+/** One statement after joining '+' continuation lines and removing comments */
+interface Statement {
+	line: number;
+	text: string;
+}
+
+/** Remove inline comments (';' anywhere, '$' after whitespace) */
+function stripComment(line: string): string {
+	return line.replace(/;.*$/, '').replace(/\s\$.*$/, '').trim();
+}
+
+function toStatements(lines: string[]): Statement[] {
+	const statements: Statement[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (!trimmed || trimmed.startsWith('*')) continue;
+		const text = stripComment(trimmed);
+		if (text.startsWith('+')) {
+			const last = statements[statements.length - 1];
+			if (last) last.text += ' ' + text.slice(1).trim();
+			continue;
+		}
+		if (text) statements.push({ line: i + 1, text });
+	}
+	return statements;
+}
+
+/** Type of a .model, from the netlist itself or the component library */
+function modelType(name: string, models: SpiceModel[]): string | undefined {
+	const local = models.find(m => m.name.toUpperCase() === name.toUpperCase());
+	return (local?.type ?? findModel(name)?.type)?.toUpperCase();
+}
+
+/** Symbol of a diode: the zener, Schottky, LED or varactor symbol of its library model, or the plain diode */
+function diodeType(model: string): ComponentType {
+	const symbol = findModel(model)?.symbol;
+	return symbol && DIODE_TYPES.includes(symbol) ? symbol : 'diode';
+}
+
+/** Check whether a token names a model (defined in the netlist or in the library) */
+function isModelName(token: string | undefined, models: SpiceModel[]): boolean {
+	return !!token && modelType(token, models) !== undefined;
+}
+
+/**
+ * Parse a SPICE netlist
+ * As in SPICE, the first line is the title. Parsing stops at .end.
+ * BJT substrate nodes are dropped (the symbols have three pins) and reported when
+ * they are not the emitter. MOSFETs get a bulk pin when their bulk is not the source.
+ */
+export function parseSpiceNetlist(text: string): ParsedNetlist {
+	const lines = text.replace(/\r\n?/g, '\n').split('\n');
+	const result: ParsedNetlist = {
+		title: '',
+		elements: [],
+		parameters: {},
+		models: [],
+		subcircuits: [],
+		directives: [],
+		unmapped: []
+	};
+
+	// Title line
+	const titleIndex = lines.findIndex(l => l.trim() !== '');
+	if (titleIndex >= 0) {
+		result.title = lines[titleIndex].trim().replace(/^\*\s*/, '');
+		lines[titleIndex] = '';
+	}
+
+	const unmapped = (s: Statement, reason: string) => result.unmapped.push({ line: s.line, text: s.text, reason });
+
+	// Top-level statements: .subckt bodies become text subcircuits, .control blocks are skipped
+	const subcircuits = parseSubcircuitText(text);
+	const statements: Statement[] = [];
+	let depth = 0;
+	let inControl = false;
+	for (const s of toStatements(lines)) {
+		const keyword = s.text.toLowerCase().split(/\s+/)[0];
+		if (inControl) {
+			inControl = keyword !== '.endc';
+		} else if (keyword === '.subckt') {
+			if (depth === 0) {
+				const name = s.text.split(/\s+/)[1] ?? '';
+				const def = subcircuits.find(d => d.name.toUpperCase() === name.toUpperCase());
+				if (def) {
+					result.subcircuits.push(def);
+				} else {
+					unmapped(s, 'Subcircuit block without a matching .ends');
+				}
+			}
+			depth++;
+		} else if (keyword === '.ends') {
+			depth = Math.max(0, depth - 1);
+		} else if (depth > 0) {
+			continue;
+		} else if (keyword === '.control') {
+			unmapped(s, '.control blocks are not part of a schematic (block skipped)');
+			inControl = true;
+		} else if (keyword === '.end') {
+			break;
+		} else {
+			statements.push(s);
+		}
+	}
+
+	// Models first, so Q and M lines can tell NPN from PNP and NMOS from PMOS
+	for (const s of statements) {
+		const m = s.text.match(/^\.model\s+(\S+)\s+([A-Za-z]+)\s*\(?(.*?)\)?\s*$/i);
+		if (m) result.models.push({ name: m[1], type: m[2].toUpperCase(), params: m[3].trim() });
+	}
+
+	for (const s of statements) {
+		if (s.text.startsWith('.')) {
+			parseDirective(s, s.text.toLowerCase().split(/\s+/)[0], result, unmapped);
+		} else {
+			parseElement(s, result, unmapped);
+		}
+	}
+	result.unmapped.sort((a, b) => a.line - b.line);
+
+	return result;
+}
+
+function parseDirective(
+	s: Statement,
+	keyword: string,
+	result: ParsedNetlist,
+	unmapped: (s: Statement, reason: string) => void
+): void {
+	const type = keyword.slice(1);
+
+	if (type === 'model') {
+		if (!/^\.model\s+\S+\s+[A-Za-z]+/i.test(s.text)) unmapped(s, 'Invalid .model line');
+		return;
+	}
+
+	if (type === 'param') {
+		const pairs = [...s.text.slice(6).matchAll(/([A-Za-z_]\w*)\s*=\s*(\{[^}]*\}|'[^']*'|\S+)/g)];
+		if (pairs.length === 0) {
+			unmapped(s, 'Invalid .param line');
+			return;
+		}
+		for (const [, name, value] of pairs) {
+			result.parameters[name] = value;
+		}
+		return;
+	}
+
+	if (type === 'title') {
+		result.title = s.text.slice(6).trim();
+		return;
+	}
+
+	if ((ANALYSES as string[]).includes(type)) {
+		if (result.directives.some(d => ANALYSES.includes(d.type))) {
+			unmapped(s, 'A schematic holds one analysis; the first one was kept');
+			return;
+		}
+		result.directives.push({ type: type as DirectiveType, text: s.text });
+		return;
+	}
+
+	if (type === 'step') {
+		try {
+			parseStepDirective(s.text);
+		} catch (err) {
+			unmapped(s, err instanceof Error ? err.message : String(err));
+			return;
+		}
+		if (result.directives.some(d => d.type === 'step')) {
+			unmapped(s, 'A schematic holds one .step; the first one was kept');
+			return;
+		}
+		result.directives.push({ type: 'step', text: s.text });
+		return;
+	}
+
+	if (type === 'meas' || type === 'measure') {
+		try {
+			parseMeasDirective(s.text);
+		} catch (err) {
+			unmapped(s, err instanceof Error ? err.message : String(err));
+			return;
+		}
+		result.directives.push({ type: 'meas', text: s.text });
+		return;
+	}
+
+	unmapped(s, `${keyword} is not supported in schematics`);
+}
+
+function parseElement(
+	s: Statement,
+	result: ParsedNetlist,
+	unmapped: (s: Statement, reason: string) => void
+): void {
+	const tokens = s.text.split(/\s+/);
+	const name = tokens[0];
+	const prefix = name[0].toUpperCase();
+
+	if (prefix === 'X') {
+		// Xname nodes... subckt [params: ...] [name=value ...]
+		let end = tokens.length;
+		while (end > 1 && (tokens[end - 1].includes('=') || tokens[end - 1].toLowerCase() === 'params:')) end--;
+		const subckt = tokens[end - 1];
+		const def = result.subcircuits.find(d => d.name.toUpperCase() === subckt?.toUpperCase());
+		const nodes = tokens.slice(1, end - 1);
+		if (!def) {
+			unmapped(s, `Subcircuit ${subckt ?? ''} is not defined in the netlist`);
+		} else if (nodes.length !== def.ports.length) {
+			unmapped(s, `${def.name} has ${def.ports.length} ports but ${nodes.length} nodes are connected`);
+		} else {
+			if (end < tokens.length) unmapped(s, `Instance parameters of ${name} are not kept (the subcircuit defaults apply)`);
+			result.elements.push({ line: s.line, name, type: 'subckt', nodes, value: def.name });
+		}
+		return;
+	}
+
+	if (prefix === 'K') {
+		// K L1 L2 [L3 ...] coefficient: couples inductors by name, no nodes
+		if (tokens.length < 4) {
+			unmapped(s, 'Expected two or more inductors and a coupling coefficient');
+			return;
+		}
+		result.elements.push({ line: s.line, name, type: 'coupling', nodes: [], value: tokens.slice(1).join(' ') });
+		return;
+	}
+
+	const nodeCount = NODE_COUNT[prefix];
+	if (nodeCount === undefined) {
+		unmapped(s, `${prefix} elements are not supported in schematics`);
+		return;
+	}
+
+	if (prefix === 'Q') {
+		// Q C B E [S] model [area]: a substrate node comes before the model
+		const hasSubstrate = !isModelName(tokens[4], result.models) && tokens.length > 5
+			&& (isModelName(tokens[5], result.models) || !/^[\d.]/.test(tokens[5]));
+		const valueStart = hasSubstrate ? 5 : 4;
+		const model = tokens[valueStart];
+		if (!model) {
+			unmapped(s, 'BJT without a model');
+			return;
+		}
+		if (hasSubstrate) unmapped(s, `Substrate node ${tokens[4]} of ${name} is not connected in the schematic`);
+		const type = modelType(model, result.models) === 'PNP' ? 'pnp' : 'npn';
+		result.elements.push({ line: s.line, name, type, nodes: tokens.slice(1, 4), value: tokens.slice(valueStart).join(' ') });
+		return;
+	}
+
+	if (prefix === 'J') {
+		// J D G S model [area]
+		const model = tokens[4];
+		if (!model) {
+			unmapped(s, 'JFET without a model');
+			return;
+		}
+		const type = modelType(model, result.models) === 'PJF' ? 'pjf' : 'njf';
+		result.elements.push({ line: s.line, name, type, nodes: tokens.slice(1, 4), value: tokens.slice(4).join(' ') });
+		return;
+	}
+
+	if (prefix === 'M') {
+		// M D G S B model [W= L= ...], or M D G S model as written by the schematic netlister
+		const hasBulk = !!tokens[5] && !tokens[5].includes('=');
+		const valueStart = hasBulk ? 5 : 4;
+		const model = tokens[valueStart];
+		if (!model) {
+			unmapped(s, 'MOSFET without a model');
+			return;
+		}
+		const bulkPin = hasBulk && tokens[4].toLowerCase() !== tokens[3].toLowerCase();
+		const type = modelType(model, result.models) === 'PMOS' ? 'pmos' : 'nmos';
+
+		// W, L and M become attributes, other instance parameters stay after the model
+		const parameters: Record<string, string> = {};
+		const rest = tokens.slice(valueStart + 1).filter(token => {
+			const [key, val] = token.split('=');
+			const param = MOSFET_PARAMETERS.find(p => p === key.toUpperCase());
+			if (!param || !val) return true;
+			parameters[param] = val;
+			return false;
+		});
+		result.elements.push({
+			line: s.line,
+			name,
+			type,
+			nodes: tokens.slice(1, bulkPin ? 5 : 4),
+			value: [model, ...rest].join(' '),
+			parameters
+		});
+		return;
+	}
+
+	if ('EGFH'.includes(prefix) && tokens.some(t => /^poly\b/i.test(t))) {
+		unmapped(s, 'POLY dependent sources are not supported in schematics');
+		return;
+	}
+
+	if (prefix === 'F' || prefix === 'H' || prefix === 'W') {
+		// F/H n+ n- Vcontrol gain, W n+ n- Vcontrol model [ON|OFF]
+		const [, , , control, ...gain] = tokens;
+		if (!control || gain.length === 0) {
+			unmapped(s, `Expected 2 nodes, a controlling voltage source and ${prefix === 'W' ? 'a model' : 'a gain'}`);
+			return;
+		}
+		result.elements.push({
+			line: s.line,
+			name,
+			type: prefix === 'F' ? 'cccs' : prefix === 'H' ? 'ccvs' : 'iswitch',
+			nodes: tokens.slice(1, 3),
+			value: gain.join(' '),
+			control
+		});
+		return;
+	}
+
+	const value = tokens.slice(1 + nodeCount).join(' ');
+	if (tokens.length < 1 + nodeCount || (!value && prefix !== 'V' && prefix !== 'I')) {
+		unmapped(s, `Expected ${nodeCount} nodes and a value`);
+		return;
+	}
+	result.elements.push({
+		line: s.line,
+		name,
+		type: prefix === 'D' ? diodeType(tokens[1 + nodeCount]) : SIMPLE_TYPES[prefix],
+		nodes: tokens.slice(1, 1 + nodeCount),
+		value: value || 'DC 0'
+	});
+}
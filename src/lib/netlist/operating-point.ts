@@ -0,0 +1,129 @@
+/**
+ * Operating point (.op) results
+ * Collects node voltages, branch currents and dissipated power for display
+ * on the schematic and in the operating point table
+ */
+
+import type { Schematic, OperatingPointAnnotation } from '../schematic/types';
+import type { RealDataType } from '../simulation/types';
+import { generateNodeLabels, formatSpiceValue } from './netlist-generator';
+import { calculateComponentCurrent, getComponentNodes } from './current-calculator';
+
+/** Node voltage */
+export interface OperatingPointNode {
+	name: string;           // Net name as shown by the node labels
+	voltage: number;
+}
+
+/** Branch values for one component (or a current vector without a schematic component) */
+export interface OperatingPointBranch {
+	componentId?: string;
+	name: string;           // Instance name (e.g., "R1")
+	voltage: number | null; // Across the first two pins
+	current: number | null; // Into the first pin
+	power: number | null;   // Absorbed power (negative = delivering)
+}
+
+/** Complete operating point */
+export interface OperatingPoint {
+	nodes: OperatingPointNode[];
+	branches: OperatingPointBranch[];
+}
+
+/** Check if a simulation result is an operating point */
+export function isOperatingPoint(header: string): boolean {
+	return /Plotname:\s*Operating Point/i.test(header);
+}
+
+/** Format a value with its unit (e.g., 0.0043, "A" -> "4.3mA") */
+export function formatOperatingValue(value: number, unit: string): string {
+	return `${formatSpiceValue(value)}${unit}`;
+}
+
+/** Strip the v(...) / i(...) wrapper from a vector name */
+function vectorArgument(name: string): string {
+	const match = name.match(/^[vi]\((.*)\)$/i);
+	return match ? match[1] : name;
+}
+
+/**
+ * Build the operating point from single-point simulation data
+ * With a schematic, node names follow the node labels and every component gets a row;
+ * without one (hand-written netlist) the raw voltage and current vectors are listed.
+ */
+export function computeOperatingPoint(simData: RealDataType[], schematic: Schematic | null): OperatingPoint {
+	const voltages = new Map<string, number>();
+	const currents = new Map<string, number>();
+	for (const d of simData) {
+		const value = d.values[0];
+		if (value === undefined) continue;
+		if (d.type === 'voltage') voltages.set(vectorArgument(d.name).toLowerCase(), value);
+		if (d.type === 'current') currents.set(vectorArgument(d.name).toLowerCase(), value);
+	}
+
+	const voltageOf = (node: string): number | null =>
+		node === '0' ? 0 : voltages.get(node.toLowerCase()) ?? null;
+
+	if (!schematic || schematic.components.length === 0) {
+		return {
+			nodes: simData
+				.filter(d => d.type === 'voltage' && d.values.length > 0)
+				.map(d => ({ name: vectorArgument(d.name), voltage: d.values[0] })),
+			branches: simData
+				.filter(d => d.type === 'current' && d.values.length > 0)
+				.map(d => ({ name: vectorArgument(d.name), voltage: null, current: d.values[0], power: null }))
+		};
+	}
+
+	const nodes: OperatingPointNode[] = [];
+	const seen = new Set<string>();
+	for (const label of generateNodeLabels(schematic)) {
+		if (seen.has(label.name)) continue;
+		seen.add(label.name);
+		const voltage = voltageOf(label.name);
+		if (voltage !== null) nodes.push({ name: label.name, voltage });
+	}
+
+	const branches: OperatingPointBranch[] = [];
+	for (const comp of schematic.components) {
+		if (comp.type === 'ground') continue;
+		const instName = comp.attributes['InstName'];
+		if (!instName) continue;
+
+		const pins = getComponentNodes(comp, schematic);
+		let voltage: number | null = null;
+		if (pins) {
+			const v1 = voltageOf(pins.node1);
+			const v2 = voltageOf(pins.node2);
+			if (v1 !== null && v2 !== null) voltage = v1 - v2;
+		}
+
+		// Sources and inductors come straight from ngspice, the rest is derived from node voltages
+		let current = currents.get(instName.toLowerCase()) ?? null;
+		if (current === null) {
+			const calculated = calculateComponentCurrent(comp, schematic, simData, [0]);
+			current = calculated ? calculated.values[0] : null;
+		}
+
+		const power = voltage !== null && current !== null ? voltage * current : null;
+		branches.push({ componentId: comp.id, name: instName, voltage, current, power });
+	}
+
+	return { nodes, branches };
+}
+
+/** Reduce an operating point to what the schematic canvas draws */
+export function toOperatingPointAnnotation(op: OperatingPoint): OperatingPointAnnotation {
+	const annotation: OperatingPointAnnotation = { nodeVoltages: {}, components: {} };
+	for (const node of op.nodes) {
+		annotation.nodeVoltages[node.name] = node.voltage;
+	}
+	for (const branch of op.branches) {
+		if (!branch.componentId) continue;
+		annotation.components[branch.componentId] = {
+			current: branch.current ?? undefined,
+			power: branch.power ?? undefined
+		};
+	}
+	return annotation;
+}
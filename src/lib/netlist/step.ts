@@ -0,0 +1,134 @@
+/**
+ * Parametric sweeps (.step)
+ * ngspice has no .step, so the directive is expanded here into one netlist
+ * per parameter value, each with the stepped .param overridden
+ */
+
+import { parseSpiceValue, formatSpiceValue } from './netlist-generator';
+
+/** Upper bound on the number of runs a single .step may expand to */
+export const MAX_STEP_RUNS = 200;
+
+/** Parsed .step directive */
+export interface StepSpec {
+	param: string;          // Parameter name (e.g., "R")
+	values: number[];       // One simulation per value, in order
+}
+
+/** One simulation of a stepped run */
+export interface StepRun {
+	value: number;
+	label: string;          // Legend label (e.g., "R=2.2k")
+	netlist: string;
+}
+
+/** Check if a line is a .step directive */
+export function isStepDirective(line: string): boolean {
+	return /^\.step\b/i.test(line.trim());
+}
+
+/**
+ * Parse a .step directive
+ * Formats (LTspice style, the sweep type may also follow the parameter name):
+ *   .step param R list 1k 2k 5k
+ *   .step param R 1k 10k 1k          (linear: start stop increment)
+ *   .step lin param R 1k 10k 1k
+ *   .step dec param C 1n 1u 5        (points per decade)
+ *   .step oct param C 1n 8n 2        (points per octave)
+ * Throws if the directive is malformed.
+ */
+export function parseStepDirective(text: string): StepSpec {
+	const tokens = text.trim().split(/\s+/).slice(1);
+	const sweepTypes = ['lin', 'dec', 'oct', 'list'];
+
+	let sweep = 'lin';
+	if (sweepTypes.includes(tokens[0]?.toLowerCase())) {
+		sweep = tokens.shift()!.toLowerCase();
+	}
+	if (tokens[0]?.toLowerCase() !== 'param' || !tokens[1]) {
+		throw new Error(`Only ".step param NAME ..." is supported: ${text.trim()}`);
+	}
+	const param = tokens[1];
+	const args = tokens.slice(2);
+	if (sweepTypes.includes(args[0]?.toLowerCase())) {
+		sweep = args.shift()!.toLowerCase();
+	}
+	const numbers = args.map(parseSpiceValue);
+
+	// Generated values are rounded so 1n, 10n, ... don't come out as 1.0000000000000004e-8
+	let values: number[] = [];
+	if (sweep === 'list') {
+		values = numbers;
+	} else {
+		if (numbers.length < 3) {
+			throw new Error(`.step ${sweep} needs start, stop and ${sweep === 'lin' ? 'increment' : 'points'}: ${text.trim()}`);
+		}
+		const [start, stop, third] = numbers;
+		if (sweep === 'lin') {
+			if (third === 0 || Math.sign(stop - start) * Math.sign(third) < 0) {
+				throw new Error(`Invalid .step increment: ${text.trim()}`);
+			}
+			const count = Math.floor((stop - start) / third + 1e-9) + 1;
+			for (let i = 0; i < count && i <= MAX_STEP_RUNS; i++) {
+				values.push(Number((start + i * third).toPrecision(12)));
+			}
+		} else {
+			if (start <= 0 || stop <= 0 || third <= 0) {
+				throw new Error(`.step ${sweep} needs positive start, stop and points: ${text.trim()}`);
+			}
+			const base = sweep === 'dec' ? 10 : 2;
+			const points = Math.round(third);
+			const count = Math.floor(Math.log(stop / start) / Math.log(base) * points + 1e-9) + 1;
+			for (let i = 0; i < count && i <= MAX_STEP_RUNS; i++) {
+				values.push(Number((start * Math.pow(base, i / points)).toPrecision(12)));
+			}
+		}
+	}
+
+	if (values.length === 0) {
+		throw new Error(`.step has no values: ${text.trim()}`);
+	}
+	if (values.length > MAX_STEP_RUNS) {
+		throw new Error(`.step expands to more than ${MAX_STEP_RUNS} runs`);
+	}
+	return { param, values };
+}
+
+/** Find and parse the .step directive of a netlist, or null if there is none */
+export function findStepDirective(netlist: string): StepSpec | null {
+	const line = netlist.split('\n').find(isStepDirective);
+	return line ? parseStepDirective(line) : null;
+}
+
+/**
+ * Netlist for one step value: the .step line is dropped and every .param
+ * assignment of the stepped parameter is replaced (or one is added after the title)
+ */
+export function applyStepValue(netlist: string, param: string, value: number): string {
+	const assignment = new RegExp(`(^|\\s)${param}\\s*=\\s*(\\{[^}]*\\}|'[^']*'|\\S+)`, 'gi');
+	let assigned = false;
+
+	const lines = netlist.split('\n')
+		.filter(line => !isStepDirective(line))
+		.map(line => {
+			if (!/^\.param\b/i.test(line.trim())) return line;
+			return line.replace(assignment, (_, lead) => {
+				assigned = true;
+				return `${lead}${param}=${value}`;
+			});
+		});
+
+	if (!assigned) {
+		lines.splice(1, 0, `.param ${param}=${value}`);
+	}
+	return lines.join('\n');
+}
+
+/** Expand a stepped netlist into one run per value */
+export function getStepRuns(netlist: string, spec: StepSpec): StepRun[] {
+	return spec.values.map(value => ({
+		value,
+		label: `${spec.param}=${formatSpiceValue(value)}`,
+		netlist: applyStepValue(netlist, spec.param, value)
+	}));
+}
@@ -0,0 +1,291 @@
+/**
+ * Tolerance analysis (Monte Carlo and worst case)
+ * R, C and L instances with a Tolerance attribute are perturbed and one netlist
+ * per run is generated with generateNetlist; a scalar measurement of every run
+ * is then summarized as a histogram with a production yield
+ */
+
+import type { Schematic, Component, ComponentType } from '../schematic/types';
+import type { SimulationResult } from '../simulation/types';
+import { generateNetlist, netlistToText, expandParameters, parseSpiceValue } from './netlist-generator';
+
+/** Component types that can carry a tolerance */
+export const TOLERANCE_TYPES: ComponentType[] = ['resistor', 'capacitor', 'inductor'];
+
+/** Worst case runs every corner, so the number of toleranced parts is limited (2^8 = 256 runs) */
+export const MAX_WORST_CASE_COMPONENTS = 8;
+
+/** Upper bound on Monte Carlo runs */
+export const MAX_MONTE_CARLO_RUNS = 1000;
+
+export type ToleranceDistribution = 'uniform' | 'gaussian';
+
+export type ToleranceMode = 'monte-carlo' | 'worst-case';
+
+/** Tolerance analysis settings */
+export interface ToleranceOptions {
+	mode: ToleranceMode;
+	runs: number;           // Monte Carlo only
+	seed: number;           // Monte Carlo only - same seed, same perturbed values
+}
+
+/** A component taking part in the analysis */
+export interface TolerancedComponent {
+	component: Component;
+	nominal: number;
+	tolerance: number;      // Relative (0.05 = 5%)
+	distribution: ToleranceDistribution;
+}
+
+/** One perturbed run */
+export interface ToleranceRun {
+	label: string;          // "#3" for Monte Carlo, "R1+ C1-" for a corner, "nominal"
+	netlist: string;
+	schematic: Schematic;   // Perturbed copy, e.g. for calculating probe currents
+	values: Record<string, number>;  // Instance name -> value used in this run
+}
+
+/** Scalar extracted from every run */
+export type MeasurementStat = 'max' | 'min' | 'avg' | 'rms' | 'pp' | 'final';
+
+export interface ToleranceMeasurement {
+	vector: string;         // e.g. "v(out)"
+	stat: MeasurementStat;
+	lower?: number;         // Spec limits for the yield
+	upper?: number;
+}
+
+export interface HistogramBin {
+	start: number;
+	end: number;
+	count: number;
+}
+
+/** Statistics of a measurement over all runs */
+export interface ToleranceSummary {
+	values: number[];
+	mean: number;
+	stdDev: number;
+	min: number;
+	max: number;
+	yield: number | null;   // Fraction of runs within the limits (null without limits)
+	bins: HistogramBin[];
+}
+
+/** Parse a tolerance like "5%" or "5" (percent) into a fraction, or null if invalid */
+export function parseTolerance(text: string): number | null {
+	const match = text.trim().match(/^(\d+(?:\.\d*)?|\.\d+)\s*%?$/);
+	if (!match) return null;
+	const percent = parseFloat(match[1]);
+	if (!(percent > 0 && percent < 100)) return null;
+	return percent / 100;
+}
+
+/** Seeded pseudo-random generator (mulberry32), uniform in [0, 1) */
+export function createRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/** Standard normal sample (Box-Muller) */
+function gaussian(random: () => number): number {
+	const u = 1 - random();
+	const v = random();
+	return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Find the components with a tolerance attribute
+ * Values must be numeric after parameter expansion; other components are reported as warnings.
+ */
+export function getTolerancedComponents(schematic: Schematic): { components: TolerancedComponent[]; warnings: string[] } {
+	const components: TolerancedComponent[] = [];
+	const warnings: string[] = [];
+
+	for (const comp of schematic.components) {
+		if (!TOLERANCE_TYPES.includes(comp.type) || !comp.attributes['Tolerance']) continue;
+		const name = comp.attributes['InstName'] || comp.id;
+
+		const tolerance = parseTolerance(comp.attributes['Tolerance']);
+		if (tolerance === null) {
+			warnings.push(`Warning: ${name} has an invalid tolerance "${comp.attributes['Tolerance']}"`);
+			continue;
+		}
+		const value = expandParameters(comp.attributes['Value'] || '', schematic.parameters || {}).trim();
+		if (!/^[+-]?(\d|\.\d)/.test(value)) {
+			warnings.push(`Warning: ${name} value "${value}" is not a number, tolerance ignored`);
+			continue;
+		}
+
+		components.push({
+			component: comp,
+			nominal: parseSpiceValue(value),
+			tolerance,
+			distribution: comp.attributes['Distribution'] === 'gaussian' ? 'gaussian' : 'uniform'
+		});
+	}
+
+	return { components, warnings };
+}
+
+/** Build the run for one set of component values */
+function createRun(schematic: Schematic, label: string, values: Map<Component, number>, title: string): ToleranceRun {
+	const perturbed: Schematic = {
+		...schematic,
+		components: schematic.components.map(comp => {
+			const value = values.get(comp);
+			if (value === undefined) return comp;
+			return { ...comp, attributes: { ...comp.attributes, Value: `${Number(value.toPrecision(6))}` } };
+		})
+	};
+
+	const byName: Record<string, number> = {};
+	for (const [comp, value] of values) {
+		byName[comp.attributes['InstName'] || comp.id] = value;
+	}
+
+	return {
+		label,
+		netlist: netlistToText(generateNetlist(perturbed, title)),
+		schematic: perturbed,
+		values: byName
+	};
+}
+
+/**
+ * Generate the perturbed netlists
+ * Monte Carlo: every run draws each value from its distribution
+ *   (uniform within ±tol, gaussian with the tolerance at 3σ, clipped to ±tol).
+ * Worst case: the nominal run followed by every combination of ±tol corners.
+ * Throws if nothing has a tolerance or the run count is out of range.
+ */
+export function generateToleranceRuns(schematic: Schematic, options: ToleranceOptions, title = 'Tolerance Analysis'): ToleranceRun[] {
+	const { components } = getTolerancedComponents(schematic);
+	if (components.length === 0) {
+		throw new Error('No R, C or L has a tolerance - set one in the component editor');
+	}
+
+	const runs: ToleranceRun[] = [];
+
+	if (options.mode === 'worst-case') {
+		if (components.length > MAX_WORST_CASE_COMPONENTS) {
+			throw new Error(`Worst case supports up to ${MAX_WORST_CASE_COMPONENTS} toleranced parts (${components.length} found)`);
+		}
+		runs.push(createRun(schematic, 'nominal', new Map(components.map(c => [c.component, c.nominal])), title));
+		for (let corner = 0; corner < 1 << components.length; corner++) {
+			const values = new Map<Component, number>();
+			const label: string[] = [];
+			components.forEach((c, i) => {
+				const high = (corner >> i) & 1;
+				values.set(c.component, c.nominal * (1 + (high ? c.tolerance : -c.tolerance)));
+				label.push(`${c.component.attributes['InstName'] || c.component.id}${high ? '+' : '-'}`);
+			});
+			runs.push(createRun(schematic, label.join(' '), values, title));
+		}
+		return runs;
+	}
+
+	if (!(options.runs >= 1 && options.runs <= MAX_MONTE_CARLO_RUNS)) {
+		throw new Error(`Monte Carlo needs between 1 and ${MAX_MONTE_CARLO_RUNS} runs`);
+	}
+	const random = createRandom(options.seed);
+	for (let k = 0; k < options.runs; k++) {
+		const values = new Map<Component, number>();
+		for (const c of components) {
+			const deviation = c.distribution === 'gaussian'
+				? Math.max(-1, Math.min(1, gaussian(random) / 3))
+				: 2 * random() - 1;
+			values.set(c.component, c.nominal * (1 + deviation * c.tolerance));
+		}
+		runs.push(createRun(schematic, `#${k + 1}`, values, title));
+	}
+	return runs;
+}
+
+/**
+ * Evaluate a measurement on one simulation result
+ * Complex (AC) vectors are measured in dB. avg and rms are weighted by the
+ * time step when the result has a time axis. Returns null if the vector is missing.
+ */
+export function measureResult(result: SimulationResult, measurement: ToleranceMeasurement): number | null {
+	const key = measurement.vector.trim().toLowerCase();
+	let values: number[];
+	let axis: number[] | undefined;
+
+	if (result.dataType === 'complex') {
+		const vector = result.data.find(d => d.name.toLowerCase() === key);
+		if (!vector) return null;
+		values = vector.values.map(c => 20 * Math.log10(Math.max(Math.hypot(c.real, c.img), 1e-20)));
+	} else {
+		const vector = result.data.find(d => d.name.toLowerCase() === key);
+		if (!vector) return null;
+		values = vector.values;
+		axis = result.data.find(d => d.type === 'time')?.values;
+	}
+	if (values.length === 0) return null;
+
+	// Folded, not spread: a long transient has more samples than a call takes arguments
+	const max = () => values.reduce((m, v) => Math.max(m, v), -Infinity);
+	const min = () => values.reduce((m, v) => Math.min(m, v), Infinity);
+	switch (measurement.stat) {
+		case 'max': return max();
+		case 'min': return min();
+		case 'pp': return max() - min();
+		case 'final': return values[values.length - 1];
+		case 'avg':
+		case 'rms': {
+			const square = measurement.stat === 'rms';
+			if (!axis || axis.length !== values.length || values.length < 2) {
+				const sum = values.reduce((s, v) => s + (square ? v * v : v), 0);
+				return square ? Math.sqrt(sum / values.length) : sum / values.length;
+			}
+			let integral = 0;
+			for (let i = 1; i < values.length; i++) {
+				const a = square ? values[i - 1] ** 2 : values[i - 1];
+				const b = square ? values[i] ** 2 : values[i];
+				integral += (a + b) / 2 * (axis[i] - axis[i - 1]);
+			}
+			const mean = integral / (axis[axis.length - 1] - axis[0] || 1);
+			return square ? Math.sqrt(mean) : mean;
+		}
+	}
+}
+
+/** Mean, standard deviation, yield against the limits and a histogram of the measured values */
+export function summarizeMeasurements(values: number[], measurement: ToleranceMeasurement, binCount = 20): ToleranceSummary {
+	const n = values.length;
+	const mean = n > 0 ? values.reduce((s, v) => s + v, 0) / n : 0;
+	const variance = n > 1 ? values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1) : 0;
+	const min = n > 0 ? Math.min(...values) : 0;
+	const max = n > 0 ? Math.max(...values) : 0;
+
+	let yieldFraction: number | null = null;
+	if (n > 0 && (measurement.lower !== undefined || measurement.upper !== undefined)) {
+		const pass = values.filter(v =>
+			(measurement.lower === undefined || v >= measurement.lower) &&
+			(measurement.upper === undefined || v <= measurement.upper)
+		).length;
+		yieldFraction = pass / n;
+	}
+
+	const bins: HistogramBin[] = [];
+	if (n > 0) {
+		const count = max > min ? binCount : 1;
+		const width = (max - min) / count || 1;
+		for (let i = 0; i < count; i++) {
+			bins.push({ start: min + i * width, end: min + (i + 1) * width, count: 0 });
+		}
+		for (const v of values) {
+			const index = Math.min(count - 1, Math.floor((v - min) / width));
+			bins[index].count++;
+		}
+	}
+
+	return { values, mean, stdDev: Math.sqrt(variance), min, max, yield: yieldFraction, bins };
+}
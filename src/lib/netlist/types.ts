@@ -2,7 +2,7 @@
  * Netlist generation types
  */
 
-import type { Component, Wire, Junction, Point } from '../schematic/types';
+import type { Component, ComponentType, Wire, Junction, Point } from '../schematic/types';
 
 /** A net is a set of electrically connected points */
 export interface Net {
@@ -41,6 +41,7 @@ export interface SpiceComponent {
 export interface GeneratedNetlist {
 	title: string;
 	components: SpiceComponent[];
+	subcircuits: string[];  // .subckt ... .ends blocks
 	directives: string[];   // .tran, .ac, etc.
 	errors: string[];
 	warnings: string[];
@@ -54,10 +55,29 @@ export const COMPONENT_PREFIX: Record<string, string> = {
 	voltage: 'V',
 	current: 'I',
 	diode: 'D',
+	zener: 'D',
+	schottky: 'D',
+	led: 'D',
+	varactor: 'D',
 	npn: 'Q',
 	pnp: 'Q',
+	njf: 'J',
+	pjf: 'J',
 	nmos: 'M',
 	pmos: 'M',
+	vcvs: 'E',
+	vccs: 'G',
+	ccvs: 'H',
+	cccs: 'F',
+	behavioral: 'B',
+	opamp: 'X',
+	comparator: 'X',
+	transformer: 'L',  // Two L lines and a K line
+	coupling: 'K',
+	vswitch: 'S',
+	iswitch: 'W',
+	tline: 'T',
+	subckt: 'X',
 	ground: '',  // Ground is not a component, it defines node 0
 };
 
@@ -69,10 +89,28 @@ export const DEFAULT_VALUES: Record<string, string> = {
 	voltage: 'DC 5',
 	current: 'DC 1m',
 	diode: '1N4148',
+	zener: 'BZX84C5V1',
+	schottky: '1N5817',
+	led: 'LED_RED',
+	varactor: 'MV2201',
 	npn: '2N2222',
 	pnp: '2N3906',
-	nmos: 'NMOS',  // No default model in library yet
-	pmos: 'PMOS',  // No default model in library yet
+	njf: 'J2N5457',
+	pjf: 'J2N5460',
+	nmos: '2N7000',
+	pmos: 'BSS84',
+	vcvs: '10',    // Voltage gain
+	vccs: '1m',    // Transconductance (A/V)
+	ccvs: '1k',    // Transresistance (V/A)
+	cccs: '10',    // Current gain
+	behavioral: 'V=1',
+	opamp: 'ideal',       // Built-in model, see models/amplifier-models.ts
+	comparator: 'ideal',
+	transformer: 'Lp=1m Ls=1m K=1',
+	coupling: 'L1 L2 1',   // Coupled inductors, then the coefficient
+	vswitch: 'SW_LOGIC',   // .model SW in the library
+	iswitch: 'CSW_1MA',    // .model CSW in the library
+	tline: 'Z0=50 TD=1n',
 };
 
 /** Pin order for SPICE netlist (component type -> pin names in order) */
@@ -83,9 +121,37 @@ export const PIN_ORDER: Record<string, string[]> = {
 	voltage: ['+', '-'],
 	current: ['+', '-'],
 	diode: ['A', 'K'],       // Anode, Cathode (NGSpice: D1 anode cathode model)
+	zener: ['A', 'K'],
+	schottky: ['A', 'K'],
+	led: ['A', 'K'],
+	varactor: ['A', 'K'],
 	npn: ['C', 'B', 'E'],    // Collector, Base, Emitter
 	pnp: ['C', 'B', 'E'],
-	nmos: ['D', 'G', 'S'],   // Drain, Gate, Source (+ Bulk, often tied to Source)
-	pmos: ['D', 'G', 'S'],
+	njf: ['D', 'G', 'S'],    // Drain, Gate, Source
+	pjf: ['D', 'G', 'S'],
+	nmos: ['D', 'G', 'S', 'B'],  // Drain, Gate, Source, Bulk (the source when there is no bulk pin)
+	pmos: ['D', 'G', 'S', 'B'],
+	vcvs: ['+', '-', 'C+', 'C-'],  // Output, then controlling voltage
+	vccs: ['+', '-', 'C+', 'C-'],
+	ccvs: ['+', '-'],        // Controlling source (Control attribute) goes before the value
+	cccs: ['+', '-'],
+	behavioral: ['+', '-'],
+	opamp: ['+', '-', 'OUT'],  // With supply pins: AMPLIFIER_SUPPLY_PIN_ORDER
+	comparator: ['+', '-', 'OUT'],
+	transformer: ['P1', 'P2', 'S1', 'S2'],
+	coupling: [],            // Couples inductors by name, see coupling.ts
+	vswitch: ['+', '-', 'C+', 'C-'],  // Switch, then controlling voltage
+	iswitch: ['+', '-'],     // Controlling source (Control attribute) goes before the model
+	tline: ['A+', 'A-', 'B+', 'B-'],  // Port A, then port B
+	subckt: [],              // Taken from the instance's pins (the subcircuit's ports)
 };
 
+
+/** Component types emitted as D lines (the symbols differ, the SPICE element does not) */
+export const DIODE_TYPES: ComponentType[] = ['diode', 'zener', 'schottky', 'led', 'varactor'];
+
+/** MOSFET instance parameters, kept as component attributes and written after the model */
+export const MOSFET_PARAMETERS = ['W', 'L', 'M'];
+
+/** Node order of op-amps and comparators that show their supply pins (as on the LM358 .subckt) */
+export const AMPLIFIER_SUPPLY_PIN_ORDER = ['+', '-', 'V+', 'V-', 'OUT'];
@@ -0,0 +1,331 @@
+/**
+ * Saved project file format
+ * A project file holds the schematic and the workspace around it: netlist text,
+ * canvas view, probes and waveform tab layout. Older files are upgraded through
+ * MIGRATIONS one version at a time, then checked against the current format.
+ */
+
+import type { Schematic, Probe, ViewTransform, DirectiveType, DrawCmd, ProbeType, Rotation } from '../schematic/types';
+import { COMPONENT_DEFS } from '../schematic/component-defs';
+import type { WaveformTab, TraceData, TraceColor, TraceType, XAxisType } from '../waveform/types';
+
+/** Format version written by this build */
+export const PROJECT_FILE_VERSION = 2;
+
+/** Trace shown in a waveform tab (the values come from the next simulation) */
+export interface TraceLayout {
+	id: string;
+	name: string;
+	type: TraceType;
+	color: TraceColor;
+	visible: boolean;
+}
+
+/** Waveform tab without its simulation data */
+export interface WaveformTabLayout {
+	id: string;
+	name: string;
+	xAxisType?: XAxisType;
+	traces: TraceLayout[];
+}
+
+/** Contents of a saved project file */
+export interface ProjectFile {
+	version: typeof PROJECT_FILE_VERSION;
+	schematic: Schematic;
+	netlist: string;
+	view?: ViewTransform;           // Canvas pan and zoom
+	probes: Probe[];
+	waveformTabs: WaveformTabLayout[];
+	activeTabId: string;
+	savedAt: string;
+}
+
+/** Workspace state captured in a project file */
+export interface Workspace {
+	schematic: Schematic;
+	netlist: string;
+	view?: ViewTransform;
+	probes: Probe[];
+	waveformTabs: (WaveformTab | WaveformTabLayout)[];  // Layouts of a project not simulated since it was opened
+	activeTabId: string;
+}
+
+/** File that cannot be read, with the problems found (e.g. "schematic.components[2].x must be a number") */
+export class ProjectFileError extends Error {
+	constructor(message: string, public readonly issues: string[] = []) {
+		super(issues.length > 0 ? `${message}: ${formatIssues(issues)}` : message);
+		this.name = 'ProjectFileError';
+	}
+}
+
+/** Upgrade of a file from one version to the next */
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/** MIGRATIONS[n] turns a version n file into a version n + 1 file */
+const MIGRATIONS: Record<number, Migration> = {
+	// Version 1 held the schematic and netlist only; early files also lack the later schematic fields
+	1: (data) => {
+		const schematic = isObject(data.schematic) ? data.schematic : {};
+		return {
+			version: 2,
+			schematic: {
+				...schematic,
+				junctions: schematic.junctions ?? [],
+				netLabels: schematic.netLabels ?? [],
+				directives: schematic.directives ?? [],
+				parameters: schematic.parameters ?? {},
+				models: schematic.models ?? [],
+				subcircuits: schematic.subcircuits ?? []
+			},
+			netlist: typeof data.netlist === 'string' ? data.netlist : '',
+			probes: [],
+			waveformTabs: [{ id: 'default', name: 'Plot 1', traces: [] }],
+			activeTabId: 'default',
+			savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date(0).toISOString()
+		};
+	}
+};
+
+const MAX_LISTED_ISSUES = 5;
+
+function formatIssues(issues: string[]): string {
+	const listed = issues.slice(0, MAX_LISTED_ISSUES).join('; ');
+	return issues.length > MAX_LISTED_ISSUES ? `${listed} (and ${issues.length - MAX_LISTED_ISSUES} more)` : listed;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Validation: each check appends "path problem" messages to issues
+
+type Check = (value: unknown, path: string, issues: string[]) => void;
+
+const str: Check = (v, path, issues) => {
+	if (typeof v !== 'string') issues.push(`${path} must be a string`);
+};
+
+const num: Check = (v, path, issues) => {
+	if (typeof v !== 'number' || !Number.isFinite(v)) issues.push(`${path} must be a number`);
+};
+
+const bool: Check = (v, path, issues) => {
+	if (typeof v !== 'boolean') issues.push(`${path} must be true or false`);
+};
+
+function oneOf(values: readonly (string | number)[]): Check {
+	return (v, path, issues) => {
+		if (!values.includes(v as string | number)) issues.push(`${path} must be one of ${values.join(', ')} (got ${JSON.stringify(v)})`);
+	};
+}
+
+function optional(check: Check): Check {
+	return (v, path, issues) => {
+		if (v !== undefined) check(v, path, issues);
+	};
+}
+
+function arrayOf(check: Check): Check {
+	return (v, path, issues) => {
+		if (!Array.isArray(v)) {
+			issues.push(`${path} must be a list`);
+			return;
+		}
+		v.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+	};
+}
+
+function recordOf(check: Check): Check {
+	return (v, path, issues) => {
+		if (!isObject(v)) {
+			issues.push(`${path} must be an object`);
+			return;
+		}
+		for (const [key, item] of Object.entries(v)) check(item, `${path}.${key}`, issues);
+	};
+}
+
+function object(shape: Record<string, Check>): Check {
+	return (v, path, issues) => {
+		if (!isObject(v)) {
+			issues.push(`${path} must be an object`);
+			return;
+		}
+		for (const [key, check] of Object.entries(shape)) check(v[key], `${path}.${key}`, issues);
+	};
+}
+
+const ROTATIONS: Rotation[] = [0, 90, 180, 270];
+const DIRECTIVE_TYPES: DirectiveType[] = ['tran', 'ac', 'dc', 'op', 'param', 'model', 'step', 'meas', 'other'];
+const PROBE_TYPES: ProbeType[] = ['voltage', 'current', 'voltage-diff'];
+const DRAW_COMMANDS: DrawCmd['type'][] = ['M', 'L', 'A', 'C', 'R', 'T'];
+const X_AXIS_TYPES: XAxisType[] = ['time', 'frequency', 'voltage', 'current', 'temperature', 'resistance', 'parameter'];
+
+const componentCheck = object({
+	id: str,
+	type: oneOf(Object.keys(COMPONENT_DEFS)),
+	x: num,
+	y: num,
+	rotation: oneOf(ROTATIONS),
+	mirror: bool,
+	attributes: recordOf(str),
+	pins: arrayOf(object({ id: str, x: num, y: num, name: str }))
+});
+
+/** Components, wires, junctions and net labels (a subcircuit body has only these) */
+const drawingShape: Record<string, Check> = {
+	components: arrayOf(componentCheck),
+	wires: arrayOf(object({ id: str, x1: num, y1: num, x2: num, y2: num })),
+	junctions: arrayOf(object({ id: str, x: num, y: num })),
+	netLabels: optional(arrayOf(object({ id: str, name: str, x: num, y: num })))
+};
+
+const schematicCheck = object({
+	...drawingShape,
+	directives: optional(arrayOf(object({ id: str, type: oneOf(DIRECTIVE_TYPES), text: str, x: optional(num), y: optional(num) }))),
+	parameters: optional(recordOf(str)),
+	models: optional(arrayOf(object({ name: str, type: str, params: str, description: optional(str) }))),
+	subcircuits: optional(arrayOf(object({
+		name: str,
+		ports: arrayOf(str),
+		schematic: optional(object(drawingShape)),
+		text: optional(str)
+	}))),
+	symbols: optional(arrayOf(object({
+		id: str,
+		name: str,
+		paths: arrayOf(arrayOf(object({ type: oneOf(DRAW_COMMANDS) }))),
+		pins: arrayOf(object({ x: num, y: num, name: str })),
+		labelOffset: object({ x: num, y: num }),
+		valueOffset: object({ x: num, y: num }),
+		prefix: str,
+		subcircuit: optional(str),
+		value: str
+	})))
+});
+
+const projectCheck = object({
+	schematic: schematicCheck,
+	netlist: str,
+	view: optional(object({ offsetX: num, offsetY: num, scale: num })),
+	probes: arrayOf(object({ id: str, type: oneOf(PROBE_TYPES), node1: str, node2: optional(str), componentId: optional(str), label: str })),
+	waveformTabs: arrayOf(object({
+		id: str,
+		name: str,
+		xAxisType: optional(oneOf(X_AXIS_TYPES)),
+		traces: arrayOf(object({ id: str, name: str, type: str, color: object({ r: num, g: num, b: num, a: num }), visible: bool }))
+	})),
+	activeTabId: str,
+	savedAt: str
+});
+
+/**
+ * Check parsed JSON and upgrade it to the current format
+ * Files without a version are treated as version 1.
+ * @throws ProjectFileError when the file is not a project or does not match the format
+ */
+export function readProjectFile(data: unknown): ProjectFile {
+	if (!isObject(data) || !isObject(data.schematic)) {
+		throw new ProjectFileError('Not a WebSpice schematic file (no schematic data)');
+	}
+
+	let version = data.version ?? 1;
+	if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+		throw new ProjectFileError(`Unknown file format version ${JSON.stringify(version)}`);
+	}
+	if (version > PROJECT_FILE_VERSION) {
+		throw new ProjectFileError(`This file was saved by a newer WebSpice (format ${version}); this version reads up to format ${PROJECT_FILE_VERSION}`);
+	}
+
+	let upgraded: Record<string, unknown> = data;
+	while (version < PROJECT_FILE_VERSION) {
+		upgraded = MIGRATIONS[version](upgraded);
+		version++;
+	}
+
+	const issues: string[] = [];
+	projectCheck(upgraded, 'file', issues);
+	if (issues.length > 0) {
+		throw new ProjectFileError('Invalid schematic file', issues.map(issue => issue.replace(/^file\./, '')));
+	}
+
+	// Drop anything that is regenerated (node labels, .op annotations) or not part of the format
+	const file = upgraded as unknown as ProjectFile;
+	const { nodeLabels: _labels, operatingPoint: _op, ...schematic } = file.schematic;
+	return {
+		version: PROJECT_FILE_VERSION,
+		schematic,
+		netlist: file.netlist,
+		view: file.view,
+		probes: file.probes,
+		waveformTabs: file.waveformTabs,
+		activeTabId: file.activeTabId,
+		savedAt: file.savedAt
+	};
+}
+
+/**
+ * Read a project file from its JSON text
+ * @throws ProjectFileError when the text is not JSON or not a valid project
+ */
+export function parseProjectFile(text: string): ProjectFile {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (err) {
+		throw new ProjectFileError(`The file is not valid JSON (${err instanceof Error ? err.message : String(err)})`);
+	}
+	return readProjectFile(data);
+}
+
+/** Build the file contents for a workspace (simulation data is left out) */
+export function createProjectFile(workspace: Workspace): ProjectFile {
+	const { nodeLabels: _labels, operatingPoint: _op, ...schematic } = workspace.schematic;
+	return {
+		version: PROJECT_FILE_VERSION,
+		schematic,
+		netlist: workspace.netlist,
+		view: workspace.view,
+		probes: workspace.probes,
+		waveformTabs: workspace.waveformTabs.map(tab => ({
+			id: tab.id,
+			name: tab.name,
+			xAxisType: tab.xAxisType,
+			traces: tab.traces.map(({ id, name, type, color, visible }) => ({ id, name, type, color, visible }))
+		})),
+		activeTabId: workspace.activeTabId,
+		savedAt: new Date().toISOString()
+	};
+}
+
+/**
+ * Arrange fresh simulation traces in a saved tab layout
+ * Traces are matched by id, in the tab of the same id first. When no saved trace
+ * is in the results (e.g. the analysis changed), the tabs are returned unchanged.
+ */
+export function restoreTraceLayout(tabs: WaveformTab[], layout: WaveformTabLayout[]): WaveformTab[] {
+	const pool = new Map<string, TraceData>();
+	for (const tab of tabs) {
+		for (const trace of tab.traces) {
+			if (!pool.has(trace.id)) pool.set(trace.id, trace);
+		}
+	}
+
+	const restored = layout.map((saved): WaveformTab => {
+		const current = tabs.find(t => t.id === saved.id);
+		const own = new Map(current?.traces.map(t => [t.id, t]));
+		return {
+			id: saved.id,
+			name: saved.name,
+			xAxisType: current?.xAxisType ?? saved.xAxisType,
+			stepLabels: current?.stepLabels,
+			traces: saved.traces.flatMap(t => {
+				const trace = own.get(t.id) ?? pool.get(t.id);
+				return trace ? [{ ...trace, color: t.color, visible: t.visible }] : [];
+			})
+		};
+	});
+
+	return restored.some(t => t.traces.length > 0) ? restored : tabs;
+}
@@ -0,0 +1,7 @@
+/**
+ * Project module exports
+ */
+
+export * from './file-format';
+export * from './storage';
+export * from './share';
@@ -0,0 +1,113 @@
+/**
+ * Shareable circuit links
+ * The schematic (with its directives) and probes are stored as a project file,
+ * deflated and base64url-encoded into the URL hash: #circuit=<data>. The app is
+ * deployed as static files, so the link carries the whole circuit.
+ */
+
+import { createProjectFile, readProjectFile, ProjectFileError, type ProjectFile } from './file-format';
+import type { Schematic, Probe } from '../schematic/types';
+
+const HASH_PREFIX = '#circuit=';
+
+/** Longest link created; longer URLs are cut off by chat apps and some browsers */
+export const MAX_SHARE_URL_LENGTH = 32_000;
+
+/** Largest circuit a link may expand to, so a crafted link cannot exhaust memory */
+const MAX_DECODED_BYTES = 4 * 1024 * 1024;
+
+async function compress(text: string): Promise<Uint8Array> {
+	const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(data: Uint8Array): Promise<string> {
+	const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	for (;;) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		size += value.length;
+		if (size > MAX_DECODED_BYTES) {
+			await reader.cancel();
+			throw new ProjectFileError('The shared circuit is too large to open');
+		}
+		chunks.push(value);
+	}
+	return new TextDecoder().decode(await new Blob(chunks as BlobPart[]).arrayBuffer());
+}
+
+function toBase64Url(data: Uint8Array): string {
+	let binary = '';
+	for (const byte of data) binary += String.fromCharCode(byte);
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+	const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+	return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/** True when the hash holds a shared circuit */
+export function isShareHash(hash: string): boolean {
+	return hash.startsWith(HASH_PREFIX);
+}
+
+/**
+ * Build a link to the circuit on the given page URL
+ * @throws ProjectFileError when the link would be longer than MAX_SHARE_URL_LENGTH
+ */
+export async function createShareLink(pageUrl: string, schematic: Schematic, probes: Probe[]): Promise<string> {
+	// The netlist, view and waveform layout are left out to keep links short
+	const { version, schematic: shared, probes: sharedProbes } = createProjectFile({
+		schematic,
+		netlist: '',
+		probes,
+		waveformTabs: [],
+		activeTabId: ''
+	});
+	const data = toBase64Url(await compress(JSON.stringify({ version, schematic: shared, probes: sharedProbes })));
+	const url = `${pageUrl.split('#')[0]}${HASH_PREFIX}${data}`;
+	if (url.length > MAX_SHARE_URL_LENGTH) {
+		throw new ProjectFileError(`The circuit is too large to share as a link (${url.length} characters, the limit is ${MAX_SHARE_URL_LENGTH}); save it to a file instead`);
+	}
+	return url;
+}
+
+/**
+ * Read the circuit from a shared link's hash
+ * @throws ProjectFileError when the link is damaged or does not hold a valid circuit
+ */
+export async function readShareHash(hash: string): Promise<ProjectFile> {
+	if (!isShareHash(hash)) {
+		throw new ProjectFileError('The link does not contain a circuit');
+	}
+	if (hash.length > MAX_SHARE_URL_LENGTH) {
+		throw new ProjectFileError('The shared link is too long');
+	}
+
+	let text: string;
+	try {
+		text = await decompress(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+	} catch (err) {
+		if (err instanceof ProjectFileError) throw err;
+		throw new ProjectFileError('The shared link is damaged (it may have been cut off when copied)');
+	}
+
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new ProjectFileError('The shared link is damaged (it may have been cut off when copied)');
+	}
+	// Fill in the workspace fields left out of the link
+	const shared = typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+	return readProjectFile({
+		netlist: '',
+		waveformTabs: [{ id: 'default', name: 'Plot 1', traces: [] }],
+		activeTabId: 'default',
+		savedAt: new Date().toISOString(),
+		...shared
+	});
+}
@@ -0,0 +1,109 @@
+/**
+ * Project library in IndexedDB
+ * Every project the user works on is autosaved here as a project file, with a
+ * thumbnail and its created / updated / last-opened times. Stored files go
+ * through readProjectFile, so they are upgraded like files opened from disk.
+ */
+
+import { readProjectFile, type ProjectFile } from './file-format';
+import { openDatabase, withStore } from '../storage/idb';
+
+const DB_NAME = 'webspice';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+/** localStorage key holding the id of the project open in the editor (cleared when it is closed) */
+export const OPEN_PROJECT_KEY = 'webspice-open-project';
+
+/** Project stored in the library */
+export interface StoredProject {
+	id: string;
+	name: string;
+	file: ProjectFile;
+	thumbnail?: string;     // PNG data URL of the schematic
+	createdAt: string;      // ISO timestamps
+	updatedAt: string;
+	lastOpenedAt: string;
+}
+
+/** Library entry without its file, for listing */
+export type ProjectSummary = Omit<StoredProject, 'file'>;
+
+/** Database of the project library */
+function openLibrary(): Promise<IDBDatabase> {
+	return openDatabase(DB_NAME, STORE, DB_VERSION);
+}
+
+async function getRecord(id: string): Promise<StoredProject | undefined> {
+	return withStore<StoredProject | undefined>(await openLibrary(), 'readonly', store => store.get(id));
+}
+
+function summarize({ file: _, ...summary }: StoredProject): ProjectSummary {
+	return summary;
+}
+
+/** All projects, most recently opened first */
+export async function listProjects(): Promise<ProjectSummary[]> {
+	const records = await withStore<StoredProject[]>(await openLibrary(), 'readonly', store => store.getAll());
+	return records.map(summarize).sort((a, b) => b.lastOpenedAt.localeCompare(a.lastOpenedAt));
+}
+
+/**
+ * Load a project (its file is validated and upgraded to the current format)
+ * @throws ProjectFileError when the stored file cannot be read
+ */
+export async function getProject(id: string): Promise<StoredProject | undefined> {
+	const record = await getRecord(id);
+	return record && { ...record, file: readProjectFile(record.file) };
+}
+
+/** Create or replace a project */
+export async function putProject(project: StoredProject): Promise<void> {
+	// Svelte state proxies cannot be cloned into IndexedDB
+	const plain: StoredProject = JSON.parse(JSON.stringify(project));
+	await withStore(await openLibrary(), 'readwrite', store => store.put(plain));
+}
+
+/**
+ * Autosave a project: creates it on first save, later saves keep its name and times
+ * and replace the file (and the thumbnail, when one is given)
+ */
+export async function saveProject(id: string, name: string, file: ProjectFile, thumbnail?: string): Promise<void> {
+	const existing = await getRecord(id);
+	const now = new Date().toISOString();
+	await putProject(existing
+		? { ...existing, file, thumbnail: thumbnail || existing.thumbnail, updatedAt: now }
+		: { id, name, file, thumbnail, createdAt: now, updatedAt: now, lastOpenedAt: now });
+}
+
+/** Change fields of a stored project */
+async function updateProject(id: string, changes: Partial<Omit<StoredProject, 'id'>>): Promise<StoredProject> {
+	const record = await getRecord(id);
+	if (!record) throw new Error('The project no longer exists');
+	const updated = { ...record, ...changes };
+	await putProject(updated);
+	return updated;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+	await updateProject(id, { name, updatedAt: new Date().toISOString() });
+}
+
+/** Record that a project was opened now */
+export async function touchProject(id: string): Promise<void> {
+	await updateProject(id, { lastOpenedAt: new Date().toISOString() });
+}
+
+/** Copy a project under "<name> (copy)" */
+export async function duplicateProject(id: string): Promise<ProjectSummary> {
+	const record = await getRecord(id);
+	if (!record) throw new Error('The project no longer exists');
+	const now = new Date().toISOString();
+	const copy: StoredProject = { ...record, id: crypto.randomUUID(), name: `${record.name} (copy)`, createdAt: now, updatedAt: now, lastOpenedAt: now };
+	await putProject(copy);
+	return summarize(copy);
+}
+
+export async function deleteProject(id: string): Promise<void> {
+	await withStore(await openLibrary(), 'readwrite', store => store.delete(id));
+}
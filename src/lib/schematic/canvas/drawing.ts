@@ -3,8 +3,10 @@
  * Pure functions for rendering schematic elements
  */
 
-import type { Point, ViewTransform, Wire, Junction, Component, NodeLabel, SpiceDirective } from '../types';
+import type { Point, ViewTransform, Wire, Junction, Component, NodeLabel, NetLabel, SpiceDirective, OperatingPointAnnotation, Schematic, SchematicHighlight } from '../types';
 import { getAllPinPositions, type WireSegment } from './geometry';
+import { getComponentDef } from '../component-defs';
+import { formatOperatingValue } from '$lib/netlist/operating-point';
 
 /** Parameters for drawing the grid */
 export interface GridDrawParams {
@@ -149,7 +151,8 @@ export function drawJunctions(params: JunctionDrawParams): void {
 export function drawNodeLabels(
 	ctx: CanvasRenderingContext2D,
 	viewScale: number,
-	nodeLabels: NodeLabel[] | undefined
+	nodeLabels: NodeLabel[] | undefined,
+	nodeVoltages?: Record<string, number>
 ): void {
 	if (!nodeLabels || nodeLabels.length === 0) return;
 
@@ -172,6 +175,48 @@ export function drawNodeLabels(
 		// Draw text
 		ctx.fillStyle = label.isGround ? '#00ff00' : '#88ccff';
 		ctx.fillText(text, label.x + 3 + padding, label.y - 2 - padding);
+
+		// Operating point voltage right after the name
+		const voltage = nodeVoltages?.[label.name];
+		if (voltage !== undefined && !label.isGround) {
+			const vText = formatOperatingValue(voltage, 'V');
+			const vX = label.x + 3 + bgWidth + 2 / viewScale;
+			const vWidth = ctx.measureText(vText).width + padding * 2;
+			ctx.fillStyle = '#332200';
+			ctx.fillRect(vX, label.y - bgHeight - 2, vWidth, bgHeight);
+			ctx.fillStyle = '#ffcc00';
+			ctx.fillText(vText, vX + padding, label.y - 2 - padding);
+		}
+	}
+}
+
+/** Draw operating point current and power below each component */
+export function drawComponentOperatingPoint(
+	ctx: CanvasRenderingContext2D,
+	viewScale: number,
+	components: Component[],
+	annotation: OperatingPointAnnotation | undefined
+): void {
+	if (!annotation) return;
+
+	const fontSize = Math.max(9, 11 / viewScale);
+	ctx.font = `${fontSize}px monospace`;
+	ctx.textAlign = 'left';
+	ctx.textBaseline = 'top';
+	ctx.fillStyle = '#ffcc00';
+
+	for (const comp of components) {
+		const values = annotation.components[comp.id];
+		if (!values) continue;
+
+		const lines: string[] = [];
+		if (values.current !== undefined) lines.push(formatOperatingValue(values.current, 'A'));
+		if (values.power !== undefined) lines.push(formatOperatingValue(values.power, 'W'));
+
+		// Below-right of the component body, clear of the name/value labels
+		lines.forEach((line, i) => {
+			ctx.fillText(line, comp.x + 12, comp.y + 20 + i * (fontSize + 1));
+		});
 	}
 }
 
@@ -215,3 +260,97 @@ export function drawDirectives(
 	}
 }
 
+/** Draw user-placed net labels: a dot at the attachment point and the name in a box beside it */
+export function drawNetLabels(
+	ctx: CanvasRenderingContext2D,
+	viewScale: number,
+	netLabels: NetLabel[] | undefined,
+	selectedNetLabelIds: Set<string>,
+	isGhost: boolean = false
+): void {
+	if (!netLabels || netLabels.length === 0) return;
+
+	const fontSize = Math.max(10, 12 / viewScale);
+	ctx.font = `bold ${fontSize}px monospace`;
+	ctx.textAlign = 'left';
+	ctx.textBaseline = 'middle';
+	if (isGhost) ctx.globalAlpha = 0.5;
+
+	for (const label of netLabels) {
+		const isSelected = selectedNetLabelIds.has(label.id);
+		const metrics = ctx.measureText(label.name);
+		const padding = 2 / viewScale;
+		const offset = 6;
+		const bgWidth = metrics.width + padding * 2;
+		const bgHeight = fontSize + padding * 2;
+
+		// Attachment dot and lead
+		ctx.fillStyle = isSelected ? '#ffff00' : '#ffaa00';
+		ctx.beginPath();
+		ctx.arc(label.x, label.y, 3 / viewScale, 0, Math.PI * 2);
+		ctx.fill();
+		ctx.strokeStyle = isSelected ? '#ffff00' : '#aa7700';
+		ctx.lineWidth = 1 / viewScale;
+		ctx.beginPath();
+		ctx.moveTo(label.x, label.y);
+		ctx.lineTo(label.x + offset, label.y);
+		ctx.stroke();
+
+		// Name box
+		ctx.fillStyle = isSelected ? '#3a3a1a' : '#2a2000';
+		ctx.fillRect(label.x + offset, label.y - bgHeight / 2, bgWidth, bgHeight);
+		ctx.lineWidth = (isSelected ? 2 : 1) / viewScale;
+		ctx.strokeRect(label.x + offset, label.y - bgHeight / 2, bgWidth, bgHeight);
+
+		ctx.fillStyle = isSelected ? '#ffff88' : '#ffcc66';
+		ctx.fillText(label.name, label.x + offset + padding, label.y);
+	}
+
+	if (isGhost) ctx.globalAlpha = 1.0;
+}
+
+/** Draw a red halo around highlighted components, wires and net labels */
+export function drawHighlight(
+	ctx: CanvasRenderingContext2D,
+	viewScale: number,
+	schematic: Schematic,
+	highlight: SchematicHighlight | null | undefined
+): void {
+	if (!highlight) return;
+
+	ctx.save();
+	ctx.strokeStyle = 'rgba(255, 60, 60, 0.6)';
+	ctx.fillStyle = 'rgba(255, 60, 60, 0.6)';
+	ctx.lineCap = 'round';
+
+	ctx.lineWidth = 8 / viewScale;
+	for (const wire of schematic.wires) {
+		if (!highlight.wireIds.includes(wire.id)) continue;
+		ctx.beginPath();
+		ctx.moveTo(wire.x1, wire.y1);
+		ctx.lineTo(wire.x2, wire.y2);
+		ctx.stroke();
+	}
+
+	ctx.lineWidth = 3 / viewScale;
+	const margin = 6;
+	for (const comp of schematic.components) {
+		if (!highlight.componentIds.includes(comp.id)) continue;
+		const def = getComponentDef(comp);
+		if (!def) continue;
+		ctx.save();
+		ctx.translate(comp.x, comp.y);
+		ctx.rotate((comp.rotation * Math.PI) / 180);
+		ctx.strokeRect(-def.width / 2 - margin, -def.height / 2 - margin, def.width + margin * 2, def.height + margin * 2);
+		ctx.restore();
+	}
+
+	for (const label of schematic.netLabels ?? []) {
+		if (!highlight.netLabelIds.includes(label.id)) continue;
+		ctx.beginPath();
+		ctx.arc(label.x, label.y, 8 / viewScale, 0, Math.PI * 2);
+		ctx.fill();
+	}
+
+	ctx.restore();
+}
@@ -4,7 +4,7 @@
  */
 
 import type { Point, ViewTransform, Component, Rotation } from '../types';
-import { COMPONENT_DEFS } from '../component-defs';
+import { getComponentDef } from '../component-defs';
 
 /**
  * Convert screen coordinates to schematic coordinates
@@ -98,7 +98,7 @@ export function getWireSegments(
  * Applies rotation and mirror transforms to pin definitions
  */
 export function getComponentPinPositions(comp: Component): Point[] {
-	const def = COMPONENT_DEFS[comp.type];
+	const def = getComponentDef(comp);
 	if (!def) return [];
 
 	const rad = (comp.rotation * Math.PI) / 180;
@@ -3,7 +3,7 @@
  * Functions for finding elements at positions
  */
 
-import type { Point, Component, Wire, Junction, SpiceDirective } from '../types';
+import type { Point, Component, Wire, Junction, NetLabel, SpiceDirective } from '../types';
 import { hitTestComponent } from '../component-renderer';
 
 /**
@@ -125,3 +125,37 @@ export function findDirectiveAtPos(
 	return null;
 }
 
+/**
+ * Find net label at a given position (its dot or name box)
+ * Requires canvas context for text measurement
+ */
+export function findNetLabelAt(
+	pos: Point,
+	netLabels: NetLabel[] | undefined,
+	params: DirectiveHitTestParams
+): NetLabel | null {
+	if (!netLabels || netLabels.length === 0) return null;
+
+	const { ctx, viewScale } = params;
+	const fontSize = Math.max(10, 12 / viewScale);
+	ctx.font = `bold ${fontSize}px monospace`;
+
+	for (let i = netLabels.length - 1; i >= 0; i--) {
+		const label = netLabels[i];
+		const metrics = ctx.measureText(label.name);
+		const padding = 2 / viewScale;
+		const offset = 6;
+		const bgWidth = metrics.width + padding * 2;
+		const bgHeight = fontSize + padding * 2;
+
+		if (
+			pos.x >= label.x - 4 &&
+			pos.x <= label.x + offset + bgWidth &&
+			pos.y >= label.y - bgHeight / 2 &&
+			pos.y <= label.y + bgHeight / 2
+		) {
+			return label;
+		}
+	}
+	return null;
+}
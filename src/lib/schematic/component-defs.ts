@@ -4,16 +4,8 @@
  * Origin (0,0) is the component center
  */
 
-import type { ComponentType, Pin } from './types';
-
-/** Drawing command types */
-type DrawCmd = 
-	| { type: 'M'; x: number; y: number }      // Move to
-	| { type: 'L'; x: number; y: number }      // Line to
-	| { type: 'A'; cx: number; cy: number; r: number; start: number; end: number }  // Arc
-	| { type: 'C'; x: number; y: number; r: number }  // Circle
-	| { type: 'R'; x: number; y: number; w: number; h: number }  // Rectangle
-	| { type: 'T'; x: number; y: number; text: string; anchor?: 'start' | 'middle' | 'end' };  // Text
+import type { Component, ComponentType, CustomSymbol, DrawCmd, Pin } from './types';
+import { findSymbol } from './symbols';
 
 /** Component definition */
 export interface ComponentDef {
@@ -188,22 +180,27 @@ const CURRENT: ComponentDef = {
 	height: 80
 };
 
+// Diode leads and triangle; the cathode bar and marks tell the diode symbols apart
+const DIODE_BODY: DrawCmd[] = [
+	{ type: 'M', x: 0, y: -30 },
+	{ type: 'L', x: 0, y: -10 },
+	{ type: 'M', x: -12, y: -10 },
+	{ type: 'L', x: 12, y: -10 },
+	{ type: 'L', x: 0, y: 10 },
+	{ type: 'L', x: -12, y: -10 },
+	{ type: 'M', x: 0, y: 10 },
+	{ type: 'L', x: 0, y: 30 },
+];
+
 // Diode: triangle with bar
 const DIODE: ComponentDef = {
 	type: 'diode',
 	name: 'Diode',
 	shortcut: 'd',
 	paths: [[
-		{ type: 'M', x: 0, y: -30 },
-		{ type: 'L', x: 0, y: -10 },
-		{ type: 'M', x: -12, y: -10 },
-		{ type: 'L', x: 12, y: -10 },
-		{ type: 'L', x: 0, y: 10 },
-		{ type: 'L', x: -12, y: -10 },
+		...DIODE_BODY,
 		{ type: 'M', x: -12, y: 10 },
 		{ type: 'L', x: 12, y: 10 },
-		{ type: 'M', x: 0, y: 10 },
-		{ type: 'L', x: 0, y: 30 },
 	]],
 	pins: [
 		{ x: 0, y: -30, name: 'A' },
@@ -215,6 +212,80 @@ const DIODE: ComponentDef = {
 	height: 60
 };
 
+// Zener: bar with bent ends
+const ZENER: ComponentDef = {
+	...DIODE,
+	type: 'zener',
+	name: 'Zener Diode',
+	shortcut: 'z',
+	paths: [[
+		...DIODE_BODY,
+		{ type: 'M', x: -16, y: 6 },
+		{ type: 'L', x: -12, y: 10 },
+		{ type: 'L', x: 12, y: 10 },
+		{ type: 'L', x: 16, y: 14 },
+	]]
+};
+
+// Schottky: bar with hooked ends
+const SCHOTTKY: ComponentDef = {
+	...DIODE,
+	type: 'schottky',
+	name: 'Schottky Diode',
+	shortcut: 'D',
+	paths: [[
+		...DIODE_BODY,
+		{ type: 'M', x: -8, y: 14 },
+		{ type: 'L', x: -12, y: 14 },
+		{ type: 'L', x: -12, y: 10 },
+		{ type: 'L', x: 12, y: 10 },
+		{ type: 'L', x: 12, y: 6 },
+		{ type: 'L', x: 8, y: 6 },
+	]]
+};
+
+// LED: diode with two arrows pointing away
+const LED: ComponentDef = {
+	...DIODE,
+	type: 'led',
+	name: 'LED',
+	shortcut: 'L',
+	paths: [[
+		...DIODE_BODY,
+		{ type: 'M', x: -12, y: 10 },
+		{ type: 'L', x: 12, y: 10 },
+	], [
+		{ type: 'M', x: 12, y: -4 },
+		{ type: 'L', x: 22, y: -12 },
+		{ type: 'M', x: 16, y: -12 },
+		{ type: 'L', x: 22, y: -12 },
+		{ type: 'L', x: 21, y: -6 },
+		{ type: 'M', x: 12, y: 4 },
+		{ type: 'L', x: 22, y: -4 },
+		{ type: 'M', x: 16, y: -4 },
+		{ type: 'L', x: 22, y: -4 },
+		{ type: 'L', x: 21, y: 2 },
+	]],
+	valueOffset: { x: 25, y: 5 },
+	labelOffset: { x: 25, y: -10 },
+	width: 48
+};
+
+// Varactor: diode with a capacitor plate after the bar
+const VARACTOR: ComponentDef = {
+	...DIODE,
+	type: 'varactor',
+	name: 'Varactor',
+	shortcut: 'C',
+	paths: [[
+		...DIODE_BODY,
+		{ type: 'M', x: -12, y: 10 },
+		{ type: 'L', x: 12, y: 10 },
+		{ type: 'M', x: -12, y: 15 },
+		{ type: 'L', x: 12, y: 15 },
+	]]
+};
+
 // NPN transistor
 const NPN: ComponentDef = {
 	type: 'npn',
@@ -285,6 +356,74 @@ const PNP: ComponentDef = {
 	height: 60
 };
 
+// JFET channel with drain and source leads; the gate arrow sets the polarity
+const JFET_BODY: DrawCmd[] = [
+	// Gate line
+	{ type: 'M', x: -30, y: 0 },
+	{ type: 'L', x: -10, y: 0 },
+	// Channel
+	{ type: 'M', x: -10, y: -15 },
+	{ type: 'L', x: -10, y: 15 },
+	// Drain
+	{ type: 'M', x: -10, y: -10 },
+	{ type: 'L', x: 10, y: -10 },
+	{ type: 'L', x: 10, y: -30 },
+	// Source
+	{ type: 'M', x: -10, y: 10 },
+	{ type: 'L', x: 10, y: 10 },
+	{ type: 'L', x: 10, y: 30 },
+];
+
+const JFET_PINS: Omit<Pin, 'id'>[] = [
+	{ x: -30, y: 0, name: 'G' },
+	{ x: 10, y: -30, name: 'D' },
+	{ x: 10, y: 30, name: 'S' }
+];
+
+// N-channel JFET (arrow into the channel)
+const NJF: ComponentDef = {
+	type: 'njf',
+	name: 'N-JFET',
+	shortcut: 'j',
+	paths: [JFET_BODY, [
+		{ type: 'M', x: -18, y: -4 },
+		{ type: 'L', x: -12, y: 0 },
+		{ type: 'L', x: -18, y: 4 },
+	]],
+	pins: JFET_PINS,
+	labelOffset: { x: 15, y: -25 },
+	valueOffset: { x: 15, y: 25 },
+	width: 40,
+	height: 60
+};
+
+// P-channel JFET (arrow out of the channel)
+const PJF: ComponentDef = {
+	...NJF,
+	type: 'pjf',
+	name: 'P-JFET',
+	shortcut: 'J',
+	paths: [JFET_BODY, [
+		{ type: 'M', x: -18, y: -4 },
+		{ type: 'L', x: -24, y: 0 },
+		{ type: 'L', x: -18, y: 4 },
+	]]
+};
+
+// MOSFET body: tied to the source, or brought out to a bulk pin on instances that show it (see getMosfetSymbol)
+const BODY_TO_SOURCE: DrawCmd[] = [
+	{ type: 'M', x: -10, y: 0 },
+	{ type: 'L', x: 10, y: 0 },
+	{ type: 'L', x: 10, y: 10 }
+];
+
+const BODY_TO_BULK: DrawCmd[] = [
+	{ type: 'M', x: -10, y: 0 },
+	{ type: 'L', x: 30, y: 0 }
+];
+
+const BULK_PIN: Omit<Pin, 'id'> = { x: 30, y: 0, name: 'B' };
+
 // NMOS transistor
 const NMOS: ComponentDef = {
 	type: 'nmos',
@@ -307,11 +446,7 @@ const NMOS: ComponentDef = {
 		{ type: 'M', x: -10, y: 10 },
 		{ type: 'L', x: 10, y: 10 },
 		{ type: 'L', x: 10, y: 30 },
-		// Body connection
-		{ type: 'M', x: -10, y: 0 },
-		{ type: 'L', x: 10, y: 0 },
-		{ type: 'L', x: 10, y: 10 },
-	], [
+	], BODY_TO_SOURCE, [
 		// Arrow on body
 		{ type: 'M', x: 4, y: 0 },
 		{ type: 'L', x: 10, y: 0 },
@@ -349,10 +484,7 @@ const PMOS: ComponentDef = {
 		{ type: 'M', x: -10, y: 10 },
 		{ type: 'L', x: 10, y: 10 },
 		{ type: 'L', x: 10, y: 30 },
-		{ type: 'M', x: -10, y: 0 },
-		{ type: 'L', x: 10, y: 0 },
-		{ type: 'L', x: 10, y: 10 },
-	], [
+	], BODY_TO_SOURCE, [
 		// Arrow pointing out
 		{ type: 'M', x: -4, y: 0 },
 		{ type: 'L', x: -10, y: 0 },
@@ -371,6 +503,380 @@ const PMOS: ComponentDef = {
 	height: 60
 };
 
+// Dependent sources: diamond body on the output pins, like the independent sources
+const DIAMOND: DrawCmd[] = [
+	{ type: 'M', x: 0, y: -40 },
+	{ type: 'L', x: 0, y: -20 },
+	{ type: 'L', x: 20, y: 0 },
+	{ type: 'L', x: 0, y: 20 },
+	{ type: 'L', x: -20, y: 0 },
+	{ type: 'L', x: 0, y: -20 },
+	{ type: 'M', x: 0, y: 20 },
+	{ type: 'L', x: 0, y: 40 },
+];
+
+// + and - inside the diamond (voltage output)
+const VOLTAGE_SIGNS: DrawCmd[] = [
+	{ type: 'M', x: -4, y: -9 },
+	{ type: 'L', x: 4, y: -9 },
+	{ type: 'M', x: 0, y: -13 },
+	{ type: 'L', x: 0, y: -5 },
+	{ type: 'M', x: -4, y: 9 },
+	{ type: 'L', x: 4, y: 9 },
+];
+
+// Arrow inside the diamond (current output), pointing up as on the current source
+const CURRENT_ARROW: DrawCmd[] = [
+	{ type: 'M', x: 0, y: 10 },
+	{ type: 'L', x: 0, y: -10 },
+	{ type: 'M', x: -4, y: -6 },
+	{ type: 'L', x: 0, y: -10 },
+	{ type: 'L', x: 4, y: -6 },
+];
+
+// Control input leads on the left, marked + and -
+const CONTROL_LEADS: DrawCmd[] = [
+	{ type: 'M', x: -40, y: -20 },
+	{ type: 'L', x: -26, y: -20 },
+	{ type: 'M', x: -40, y: 20 },
+	{ type: 'L', x: -26, y: 20 },
+	{ type: 'T', x: -33, y: -12, text: '+', anchor: 'middle' },
+	{ type: 'T', x: -33, y: 12, text: '-', anchor: 'middle' },
+];
+
+const OUTPUT_PINS: Omit<Pin, 'id'>[] = [
+	{ x: 0, y: -40, name: '+' },
+	{ x: 0, y: 40, name: '-' }
+];
+
+const CONTROL_PINS: Omit<Pin, 'id'>[] = [
+	{ x: -40, y: -20, name: 'C+' },
+	{ x: -40, y: 20, name: 'C-' }
+];
+
+// Voltage-controlled voltage source (E)
+const VCVS: ComponentDef = {
+	type: 'vcvs',
+	name: 'Voltage-Controlled Voltage Source',
+	shortcut: 'e',
+	paths: [DIAMOND, VOLTAGE_SIGNS, CONTROL_LEADS],
+	pins: [...OUTPUT_PINS, ...CONTROL_PINS],
+	labelOffset: { x: 25, y: -10 },
+	valueOffset: { x: 25, y: 5 },
+	width: 80,
+	height: 80
+};
+
+// Voltage-controlled current source (G)
+const VCCS: ComponentDef = {
+	type: 'vccs',
+	name: 'Voltage-Controlled Current Source',
+	shortcut: 'E',
+	paths: [DIAMOND, CURRENT_ARROW, CONTROL_LEADS],
+	pins: [...OUTPUT_PINS, ...CONTROL_PINS],
+	labelOffset: { x: 25, y: -10 },
+	valueOffset: { x: 25, y: 5 },
+	width: 80,
+	height: 80
+};
+
+// Current-controlled voltage source (H): senses the current through a voltage source
+const CCVS: ComponentDef = {
+	type: 'ccvs',
+	name: 'Current-Controlled Voltage Source',
+	shortcut: 'H',
+	paths: [DIAMOND, VOLTAGE_SIGNS],
+	pins: OUTPUT_PINS,
+	labelOffset: { x: 25, y: -10 },
+	valueOffset: { x: 25, y: 5 },
+	width: 40,
+	height: 80
+};
+
+// Current-controlled current source (F)
+const CCCS: ComponentDef = {
+	type: 'cccs',
+	name: 'Current-Controlled Current Source',
+	shortcut: 'F',
+	paths: [DIAMOND, CURRENT_ARROW],
+	pins: OUTPUT_PINS,
+	labelOffset: { x: 25, y: -10 },
+	valueOffset: { x: 25, y: 5 },
+	width: 40,
+	height: 80
+};
+
+// Behavioral source (B): circle marked B, the expression sets voltage or current
+const BEHAVIORAL: ComponentDef = {
+	type: 'behavioral',
+	name: 'Behavioral Source',
+	shortcut: 'b',
+	paths: [[
+		{ type: 'M', x: 0, y: -40 },
+		{ type: 'L', x: 0, y: -20 },
+		{ type: 'C', x: 0, y: 0, r: 20 },
+		{ type: 'M', x: 0, y: 20 },
+		{ type: 'L', x: 0, y: 40 },
+	], [
+		{ type: 'T', x: 0, y: 0, text: 'B', anchor: 'middle' },
+	]],
+	pins: OUTPUT_PINS,
+	labelOffset: { x: 25, y: -10 },
+	valueOffset: { x: 25, y: 5 },
+	width: 40,
+	height: 80
+};
+
+// Switches: open contact between the output pins, lever hinged at the bottom
+const SWITCH_CONTACT: DrawCmd[] = [
+	{ type: 'M', x: 0, y: -40 },
+	{ type: 'L', x: 0, y: -15 },
+	{ type: 'M', x: 0, y: 40 },
+	{ type: 'L', x: 0, y: 15 },
+	{ type: 'L', x: -10, y: -12 },
+];
+
+// Voltage-controlled switch (S): control leads drive the lever through an actuator
+const VSWITCH: ComponentDef = {
+	type: 'vswitch',
+	name: 'Voltage-Controlled Switch',
+	shortcut: 's',
+	paths: [SWITCH_CONTACT, CONTROL_LEADS, [
+		{ type: 'R', x: -26, y: -24, w: 8, h: 48 },
+		{ type: 'M', x: -18, y: 0 },
+		{ type: 'L', x: -6, y: 0 },
+	]],
+	pins: [...OUTPUT_PINS, ...CONTROL_PINS],
+	labelOffset: { x: 15, y: -10 },
+	valueOffset: { x: 15, y: 5 },
+	width: 80,
+	height: 80
+};
+
+// Current-controlled switch (W): controlled by the current through a voltage source (Control attribute)
+const ISWITCH: ComponentDef = {
+	type: 'iswitch',
+	name: 'Current-Controlled Switch',
+	shortcut: 'S',
+	paths: [SWITCH_CONTACT, [
+		{ type: 'T', x: -18, y: 4, text: 'I', anchor: 'middle' },
+	]],
+	pins: OUTPUT_PINS,
+	labelOffset: { x: 15, y: -10 },
+	valueOffset: { x: 15, y: 5 },
+	width: 40,
+	height: 80
+};
+
+// Lossless transmission line (T): conductor through the body, return path below
+const TLINE: ComponentDef = {
+	type: 'tline',
+	name: 'Transmission Line',
+	shortcut: 't',
+	paths: [[
+		{ type: 'R', x: -30, y: -20, w: 60, h: 20 },
+		{ type: 'M', x: -50, y: -10 },
+		{ type: 'L', x: 50, y: -10 },
+		{ type: 'M', x: -50, y: 20 },
+		{ type: 'L', x: -20, y: 20 },
+		{ type: 'L', x: -20, y: 0 },
+		{ type: 'M', x: 50, y: 20 },
+		{ type: 'L', x: 20, y: 20 },
+		{ type: 'L', x: 20, y: 0 },
+	]],
+	pins: [
+		{ x: -50, y: -10, name: 'A+' },
+		{ x: -50, y: 20, name: 'A-' },
+		{ x: 50, y: -10, name: 'B+' },
+		{ x: 50, y: 20, name: 'B-' }
+	],
+	labelOffset: { x: 0, y: -30 },
+	valueOffset: { x: 0, y: 35 },
+	width: 100,
+	height: 50
+};
+
+// Op-amp and comparator: triangle with inputs on the left, output on the right.
+// Supply pins (V+ on top, V- below) are only on instances that show them, see getAmplifierSymbol()
+const AMPLIFIER_BODY: DrawCmd[] = [
+	{ type: 'M', x: -30, y: -35 },
+	{ type: 'L', x: -30, y: 35 },
+	{ type: 'L', x: 35, y: 0 },
+	{ type: 'L', x: -30, y: -35 },
+	// Inputs and output
+	{ type: 'M', x: -50, y: -20 },
+	{ type: 'L', x: -30, y: -20 },
+	{ type: 'M', x: -50, y: 20 },
+	{ type: 'L', x: -30, y: 20 },
+	{ type: 'M', x: 35, y: 0 },
+	{ type: 'L', x: 50, y: 0 },
+];
+
+const AMPLIFIER_INPUT_SIGNS: DrawCmd[] = [
+	// - on the inverting input (top), + on the non-inverting input
+	{ type: 'M', x: -26, y: -20 },
+	{ type: 'L', x: -20, y: -20 },
+	{ type: 'M', x: -26, y: 20 },
+	{ type: 'L', x: -20, y: 20 },
+	{ type: 'M', x: -23, y: 17 },
+	{ type: 'L', x: -23, y: 23 },
+];
+
+const SUPPLY_LEADS: DrawCmd[] = [
+	{ type: 'M', x: 0, y: -19 },
+	{ type: 'L', x: 0, y: -40 },
+	{ type: 'M', x: 0, y: 19 },
+	{ type: 'L', x: 0, y: 40 },
+];
+
+const AMPLIFIER_PINS: Omit<Pin, 'id'>[] = [
+	{ x: -50, y: 20, name: '+' },
+	{ x: -50, y: -20, name: '-' },
+	{ x: 50, y: 0, name: 'OUT' }
+];
+
+const SUPPLY_PINS: Omit<Pin, 'id'>[] = [
+	{ x: 0, y: -40, name: 'V+' },
+	{ x: 0, y: 40, name: 'V-' }
+];
+
+const OPAMP: ComponentDef = {
+	type: 'opamp',
+	name: 'Op-Amp',
+	shortcut: 'o',
+	paths: [AMPLIFIER_BODY, AMPLIFIER_INPUT_SIGNS],
+	pins: AMPLIFIER_PINS,
+	labelOffset: { x: 10, y: -30 },
+	valueOffset: { x: 10, y: 30 },
+	width: 100,
+	height: 70
+};
+
+// Comparator: op-amp triangle with a step inside
+const COMPARATOR: ComponentDef = {
+	type: 'comparator',
+	name: 'Comparator',
+	shortcut: 'O',
+	paths: [AMPLIFIER_BODY, AMPLIFIER_INPUT_SIGNS, [
+		{ type: 'M', x: -12, y: 5 },
+		{ type: 'L', x: -4, y: 5 },
+		{ type: 'L', x: -4, y: -5 },
+		{ type: 'L', x: 6, y: -5 },
+	]],
+	pins: AMPLIFIER_PINS,
+	labelOffset: { x: 10, y: -30 },
+	valueOffset: { x: 10, y: 30 },
+	width: 100,
+	height: 70
+};
+
+// Transformer: primary on the left, secondary on the right, iron core between.
+// The dots mark P1 and S1, the first node of each winding
+const TRANSFORMER: ComponentDef = {
+	type: 'transformer',
+	name: 'Transformer',
+	shortcut: 'T',
+	paths: [[
+		{ type: 'M', x: -20, y: -30 },
+		{ type: 'L', x: -20, y: -20 },
+		{ type: 'M', x: -20, y: -20 },
+		{ type: 'A', cx: -20, cy: -15, r: 5, start: -90, end: 90 },
+		{ type: 'M', x: -20, y: -10 },
+		{ type: 'A', cx: -20, cy: -5, r: 5, start: -90, end: 90 },
+		{ type: 'M', x: -20, y: 0 },
+		{ type: 'A', cx: -20, cy: 5, r: 5, start: -90, end: 90 },
+		{ type: 'M', x: -20, y: 10 },
+		{ type: 'A', cx: -20, cy: 15, r: 5, start: -90, end: 90 },
+		{ type: 'M', x: -20, y: 20 },
+		{ type: 'L', x: -20, y: 30 },
+		{ type: 'M', x: 20, y: -30 },
+		{ type: 'L', x: 20, y: -20 },
+		{ type: 'M', x: 20, y: -10 },
+		{ type: 'A', cx: 20, cy: -15, r: 5, start: 90, end: 270 },
+		{ type: 'M', x: 20, y: 0 },
+		{ type: 'A', cx: 20, cy: -5, r: 5, start: 90, end: 270 },
+		{ type: 'M', x: 20, y: 10 },
+		{ type: 'A', cx: 20, cy: 5, r: 5, start: 90, end: 270 },
+		{ type: 'M', x: 20, y: 20 },
+		{ type: 'A', cx: 20, cy: 15, r: 5, start: 90, end: 270 },
+		{ type: 'M', x: 20, y: 20 },
+		{ type: 'L', x: 20, y: 30 },
+	], [
+		{ type: 'M', x: -3, y: -22 },
+		{ type: 'L', x: -3, y: 22 },
+		{ type: 'M', x: 3, y: -22 },
+		{ type: 'L', x: 3, y: 22 },
+	], [
+		{ type: 'C', x: -30, y: -20, r: 2 },
+		{ type: 'C', x: 30, y: -20, r: 2 },
+	]],
+	pins: [
+		{ x: -20, y: -30, name: 'P1' },
+		{ x: -20, y: 30, name: 'P2' },
+		{ x: 20, y: -30, name: 'S1' },
+		{ x: 20, y: 30, name: 'S2' }
+	],
+	labelOffset: { x: 35, y: -10 },
+	valueOffset: { x: 35, y: 5 },
+	width: 60,
+	height: 60
+};
+
+// Coupling (K statement): placed anywhere, names the inductors it couples in its value
+const COUPLING: ComponentDef = {
+	type: 'coupling',
+	name: 'Inductor Coupling',
+	shortcut: 'k',
+	paths: [[
+		{ type: 'M', x: -10, y: -7 },
+		{ type: 'A', cx: -14, cy: 0, r: 8, start: -60, end: 60 },
+		{ type: 'M', x: -3, y: -10 },
+		{ type: 'L', x: -3, y: 10 },
+		{ type: 'M', x: 3, y: -10 },
+		{ type: 'L', x: 3, y: 10 },
+		{ type: 'M', x: 10, y: 7 },
+		{ type: 'A', cx: 14, cy: 0, r: 8, start: 120, end: 240 },
+	]],
+	pins: [],
+	labelOffset: { x: 0, y: -16 },
+	valueOffset: { x: 0, y: 22 },
+	width: 40,
+	height: 24
+};
+
+// Subcircuit block - pins are generated per instance from the subcircuit's ports,
+// see getSubcircuitSymbol()
+const SUBCKT: ComponentDef = {
+	type: 'subckt',
+	name: 'Subcircuit',
+	shortcut: '',
+	paths: [[
+		{ type: 'R', x: -30, y: -20, w: 60, h: 40 },
+	]],
+	pins: [],
+	labelOffset: { x: -30, y: -28 },
+	valueOffset: { x: -30, y: 28 },
+	width: 60,
+	height: 40
+};
+
+// Custom symbol whose drawing is not available (see getCustomSymbolDef)
+const CUSTOM: ComponentDef = {
+	type: 'custom',
+	name: 'Custom Symbol',
+	shortcut: '',
+	paths: [[
+		{ type: 'R', x: -20, y: -20, w: 40, h: 40 },
+	], [
+		{ type: 'T', x: 0, y: 0, text: '?', anchor: 'middle' },
+	]],
+	pins: [],
+	labelOffset: { x: -20, y: -28 },
+	valueOffset: { x: -20, y: 28 },
+	width: 40,
+	height: 40
+};
+
 // Export all component definitions
 export const COMPONENT_DEFS: Record<ComponentType, ComponentDef> = {
 	resistor: RESISTOR,
@@ -380,18 +886,168 @@ export const COMPONENT_DEFS: Record<ComponentType, ComponentDef> = {
 	voltage: VOLTAGE,
 	current: CURRENT,
 	diode: DIODE,
+	zener: ZENER,
+	schottky: SCHOTTKY,
+	led: LED,
+	varactor: VARACTOR,
 	npn: NPN,
 	pnp: PNP,
+	njf: NJF,
+	pjf: PJF,
 	nmos: NMOS,
 	pmos: PMOS,
+	vcvs: VCVS,
+	vccs: VCCS,
+	ccvs: CCVS,
+	cccs: CCCS,
+	behavioral: BEHAVIORAL,
+	opamp: OPAMP,
+	comparator: COMPARATOR,
+	transformer: TRANSFORMER,
+	coupling: COUPLING,
+	vswitch: VSWITCH,
+	iswitch: ISWITCH,
+	tline: TLINE,
+	subckt: SUBCKT,
+	custom: CUSTOM,
 };
 
-// Get component def by shortcut key
-export function getComponentByShortcut(key: string): ComponentDef | null {
-	const lowerKey = key.toLowerCase();
-	for (const def of Object.values(COMPONENT_DEFS)) {
-		if (def.shortcut === lowerKey) return def;
+/** Pin spacing on subcircuit blocks */
+const SUBCKT_PIN_PITCH = 20;
+
+/**
+ * Build a block symbol for a subcircuit
+ * First half of the ports go on the left edge, the rest on the right edge
+ */
+export function getSubcircuitSymbol(ports: string[]): ComponentDef {
+	const leftCount = Math.ceil(ports.length / 2);
+	const rows = Math.max(leftCount, ports.length - leftCount, 1);
+	const height = rows * SUBCKT_PIN_PITCH + SUBCKT_PIN_PITCH;
+	const halfH = height / 2;
+
+	const leads: DrawCmd[] = [];
+	const names: DrawCmd[] = [];
+	const pins: Omit<Pin, 'id'>[] = [];
+
+	ports.forEach((name, i) => {
+		const isLeft = i < leftCount;
+		const row = isLeft ? i : i - leftCount;
+		const y = -(rows - 1) * SUBCKT_PIN_PITCH / 2 + row * SUBCKT_PIN_PITCH;
+		const edge = isLeft ? -30 : 30;
+		const pinX = isLeft ? -50 : 50;
+		leads.push({ type: 'M', x: pinX, y }, { type: 'L', x: edge, y });
+		names.push({ type: 'T', x: isLeft ? edge + 3 : edge - 3, y, text: name, anchor: isLeft ? 'start' : 'end' });
+		pins.push({ x: pinX, y, name });
+	});
+
+	return {
+		...SUBCKT,
+		paths: [[{ type: 'R', x: -30, y: -halfH, w: 60, h: height }, ...leads], names],
+		pins,
+		labelOffset: { x: -30, y: -halfH - 8 },
+		valueOffset: { x: -30, y: halfH + 8 },
+		width: 100,
+		height
+	};
+}
+
+/** Definition of a symbol drawn in the symbol editor; the box is sized to fit its drawing and pins */
+export function getCustomSymbolDef(symbol: CustomSymbol): ComponentDef {
+	const points: { x: number; y: number }[] = [...symbol.pins];
+	for (const cmd of symbol.paths.flat()) {
+		switch (cmd.type) {
+			case 'A': points.push({ x: cmd.cx - cmd.r, y: cmd.cy - cmd.r }, { x: cmd.cx + cmd.r, y: cmd.cy + cmd.r }); break;
+			case 'C': points.push({ x: cmd.x - cmd.r, y: cmd.y - cmd.r }, { x: cmd.x + cmd.r, y: cmd.y + cmd.r }); break;
+			case 'R': points.push({ x: cmd.x, y: cmd.y }, { x: cmd.x + cmd.w, y: cmd.y + cmd.h }); break;
+			default: points.push({ x: cmd.x, y: cmd.y });
+		}
 	}
-	return null;
+	// Hit testing uses a box centered on the origin
+	const halfW = Math.max(10, ...points.map(p => Math.abs(p.x)));
+	const halfH = Math.max(10, ...points.map(p => Math.abs(p.y)));
+	return {
+		type: 'custom',
+		name: symbol.name,
+		shortcut: '',
+		paths: symbol.paths,
+		pins: symbol.pins,
+		labelOffset: symbol.labelOffset,
+		valueOffset: symbol.valueOffset,
+		width: halfW * 2,
+		height: halfH * 2
+	};
+}
+
+/** True for op-amps and comparators whose supply pins are shown */
+export function hasSupplyPins(comp: Component): boolean {
+	return comp.pins.some(p => p.name === 'V+');
+}
+
+/** True when a MOSFET shows its bulk pin (otherwise the bulk is tied to the source) */
+export function hasBulkPin(comp: Component): boolean {
+	return (comp.type === 'nmos' || comp.type === 'pmos') && comp.pins.some(p => p.name === 'B');
+}
+
+/** MOSFET symbol, with or without the bulk pin */
+export function getMosfetSymbol(type: 'nmos' | 'pmos', bulk: boolean): ComponentDef {
+	const def = COMPONENT_DEFS[type];
+	if (!bulk) return def;
+	return {
+		...def,
+		paths: def.paths.map(path => path === BODY_TO_SOURCE ? BODY_TO_BULK : path),
+		pins: [...def.pins, BULK_PIN],
+		width: 60
+	};
+}
+
+/** Pins of a MOSFET with or without the bulk pin */
+export function getMosfetPins(type: 'nmos' | 'pmos', bulk: boolean): Component['pins'] {
+	return getMosfetSymbol(type, bulk).pins.map((p, i) => ({ ...p, id: `${i}` }));
+}
+
+/** Op-amp or comparator symbol, with or without the supply pins */
+export function getAmplifierSymbol(type: 'opamp' | 'comparator', supply: boolean): ComponentDef {
+	const def = COMPONENT_DEFS[type];
+	if (!supply) return def;
+	return {
+		...def,
+		paths: [...def.paths, SUPPLY_LEADS],
+		pins: [...def.pins, ...SUPPLY_PINS],
+		labelOffset: { x: 10, y: -40 },
+		valueOffset: { x: 10, y: 40 },
+		height: 80
+	};
+}
+
+/** Pins of an op-amp or comparator instance */
+export function getAmplifierPins(type: 'opamp' | 'comparator', supply: boolean): Component['pins'] {
+	return getAmplifierSymbol(type, supply).pins.map((p, i) => ({ ...p, id: `${i}` }));
+}
+
+/** Get the definition to draw a placed component (subcircuit blocks are built from their pins) */
+export function getComponentDef(comp: Component): ComponentDef | undefined {
+	if (comp.type === 'subckt') {
+		return getSubcircuitSymbol(comp.pins.map(p => p.name));
+	}
+	if (comp.type === 'opamp' || comp.type === 'comparator') {
+		return getAmplifierSymbol(comp.type, hasSupplyPins(comp));
+	}
+	if (comp.type === 'nmos' || comp.type === 'pmos') {
+		return getMosfetSymbol(comp.type, hasBulkPin(comp));
+	}
+	if (comp.type === 'custom') {
+		// A symbol missing from the schematic and the library is drawn as a box with a question mark
+		const symbol = findSymbol(comp.attributes['Symbol'] || '');
+		return symbol ? getCustomSymbolDef(symbol) : COMPONENT_DEFS.custom;
+	}
+	return COMPONENT_DEFS[comp.type];
+}
+
+// Get component def by shortcut key (Shift+key picks an upper-case shortcut, else the plain one)
+export function getComponentByShortcut(key: string): ComponentDef | null {
+	const defs = Object.values(COMPONENT_DEFS).filter(def => def.shortcut);
+	return defs.find(def => def.shortcut === key)
+		?? defs.find(def => def.shortcut === key.toLowerCase())
+		?? null;
 }
 
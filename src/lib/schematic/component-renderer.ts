@@ -3,7 +3,7 @@
  */
 
 import type { Component, Rotation } from './types';
-import { COMPONENT_DEFS } from './component-defs';
+import { getComponentDef } from './component-defs';
 
 /** Colors for rendering */
 const COLORS = {
@@ -24,7 +24,7 @@ export function renderComponent(
 	isSelected: boolean = false,
 	isGhost: boolean = false  // For placement preview
 ): void {
-	const def = COMPONENT_DEFS[comp.type];
+	const def = getComponentDef(comp);
 	if (!def) return;
 
 	ctx.save();
@@ -57,9 +57,33 @@ export function renderComponent(
 		ctx.stroke();
 	}
 
+	// Draw text commands (e.g., pin names on subcircuit blocks)
+	ctx.font = '8px monospace';
+	ctx.textBaseline = 'middle';
+	for (const path of def.paths) {
+		for (const cmd of path) {
+			if (cmd.type === 'T') {
+				ctx.textAlign = cmd.anchor === 'middle' ? 'center' : (cmd.anchor ?? 'start');
+				ctx.fillText(cmd.text, cmd.x, cmd.y);
+			}
+		}
+	}
+
+	// Components with their own pin positions (e.g. from LTSpice) get leads out to them
+	const pins = comp.type !== 'subckt' && comp.pins.length > 0 ? comp.pins : def.pins;
+	ctx.beginPath();
+	for (const pin of pins) {
+		const drawn = def.pins.find(p => p.name === pin.name);
+		if (drawn && (drawn.x !== pin.x || drawn.y !== pin.y)) {
+			ctx.moveTo(drawn.x, drawn.y);
+			ctx.lineTo(pin.x, pin.y);
+		}
+	}
+	ctx.stroke();
+
 	// Draw pins (small circles)
 	ctx.fillStyle = isGhost ? `${COLORS.pin}80` : COLORS.pin;
-	for (const pin of def.pins) {
+	for (const pin of pins) {
 		ctx.beginPath();
 		ctx.arc(pin.x, pin.y, 3 / scale, 0, Math.PI * 2);
 		ctx.fill();
@@ -178,7 +202,7 @@ export function hitTestComponent(
 	py: number,
 	tolerance: number = 5
 ): boolean {
-	const def = COMPONENT_DEFS[comp.type];
+	const def = getComponentDef(comp);
 	if (!def) return false;
 
 	// Transform point to component local coordinates
@@ -3,7 +3,7 @@
  * Uses discriminated union for type-safe action handling
  */
 
-import type { Point, ComponentType, Rotation, WireDirection, Component, Wire, Junction } from '../types';
+import type { Point, ComponentType, Rotation, WireDirection, Component, Wire, Junction, ViewTransform, Schematic } from '../types';
 
 /**
  * Selection target - what was clicked
@@ -12,6 +12,7 @@ export interface SelectionTarget {
 	componentId?: string;
 	wireId?: string;
 	directiveId?: string;
+	netLabelId?: string;
 }
 
 /**
@@ -22,8 +23,14 @@ export interface DeleteTarget {
 	wireIds: string[];
 	junctionIds: string[];
 	directiveIds: string[];
+	netLabelIds: string[];
 }
 
+/**
+ * Project-wide parts of the schematic edited in dialogs
+ */
+export type SchematicChanges = Partial<Pick<Schematic, 'parameters' | 'models' | 'directives' | 'subcircuits' | 'symbols'>>;
+
 /**
  * All possible editor actions
  */
@@ -32,6 +39,7 @@ export type EditorAction =
 	| { type: 'PAN'; dx: number; dy: number }
 	| { type: 'ZOOM'; factor: number; center: Point }
 	| { type: 'RESET_VIEW'; canvasWidth: number; canvasHeight: number }
+	| { type: 'SET_VIEW'; view: ViewTransform }
 	| { type: 'TOGGLE_GRID' }
 
 	// Mouse position update
@@ -39,7 +47,7 @@ export type EditorAction =
 
 	// Mode actions
 	| { type: 'SET_MODE'; mode: 'select' | 'wire' | 'delete' | 'duplicate' | 'move' | 'probe' }
-	| { type: 'START_PLACING'; componentType: ComponentType }
+	| { type: 'START_PLACING'; componentType: ComponentType; value?: string }
 	| { type: 'CANCEL' }
 
 	// Selection actions
@@ -51,6 +59,17 @@ export type EditorAction =
 	| { type: 'MIRROR_PLACING' }
 	| { type: 'PLACE_COMPONENT' }
 
+	// Net label actions
+	| { type: 'START_PLACING_LABEL'; name: string }
+	| { type: 'PLACE_NET_LABEL' }
+
+	// Subcircuit actions
+	| { type: 'START_PLACING_SUBCIRCUIT'; name: string }
+	| { type: 'CREATE_SUBCIRCUIT'; name: string }  // Replace the selection with a block of a new subcircuit
+
+	// Custom symbol actions
+	| { type: 'START_PLACING_SYMBOL'; name: string }
+
 	// Selected item actions
 	| { type: 'ROTATE_SELECTED' }
 	| { type: 'MIRROR_SELECTED' }
@@ -79,13 +98,23 @@ export type EditorAction =
 	| { type: 'PROBE_COMPLETE'; pos: Point; nodeName: string | null }
 
 	// Junction actions
-	| { type: 'CREATE_JUNCTION'; pos: Point };
+	| { type: 'CREATE_JUNCTION'; pos: Point }
+
+	// Dialog edits
+	| { type: 'UPDATE_COMPONENTS'; components: Component[] }  // Replace the components with the same ids
+	| { type: 'RENAME_NET_LABEL'; id: string; name: string }
+	| { type: 'UPDATE_SCHEMATIC'; changes: SchematicChanges }
+
+	// History actions
+	| { type: 'UNDO' }
+	| { type: 'REDO' }
+	| { type: 'CLEAR_HISTORY' };
 
 /**
  * Type guard helpers for action categories
  */
 export function isViewAction(action: EditorAction): boolean {
-	return ['PAN', 'ZOOM', 'RESET_VIEW', 'TOGGLE_GRID'].includes(action.type);
+	return ['PAN', 'ZOOM', 'RESET_VIEW', 'SET_VIEW', 'TOGGLE_GRID'].includes(action.type);
 }
 
 export function isSelectionAction(action: EditorAction): boolean {
@@ -93,12 +122,18 @@ export function isSelectionAction(action: EditorAction): boolean {
 }
 
 export function isModeAction(action: EditorAction): boolean {
-	return ['SET_MODE', 'START_PLACING', 'CANCEL'].includes(action.type);
+	return ['SET_MODE', 'START_PLACING', 'START_PLACING_LABEL', 'START_PLACING_SUBCIRCUIT', 'START_PLACING_SYMBOL', 'CANCEL'].includes(action.type);
+}
+
+export function isHistoryAction(action: EditorAction): boolean {
+	return ['UNDO', 'REDO', 'CLEAR_HISTORY'].includes(action.type);
 }
 
 export function isSchematicMutation(action: EditorAction): boolean {
 	return [
 		'PLACE_COMPONENT',
+		'PLACE_NET_LABEL',
+		'CREATE_SUBCIRCUIT',
 		'DELETE_SELECTED',
 		'DELETE_AT',
 		'COMMIT_WIRE_SEGMENT',
@@ -106,7 +141,10 @@ export function isSchematicMutation(action: EditorAction): boolean {
 		'ROTATE_SELECTED',
 		'MIRROR_SELECTED',
 		'DUPLICATE_AT',
-		'CREATE_JUNCTION'
+		'CREATE_JUNCTION',
+		'UPDATE_COMPONENTS',
+		'RENAME_NET_LABEL',
+		'UPDATE_SCHEMATIC'
 	].includes(action.type);
 }
 
@@ -0,0 +1,151 @@
+/**
+ * Undo/redo history for schematic edits
+ * Stores snapshots of the schematic taken before each mutating action
+ */
+
+import type { Schematic } from '../types';
+import type { EditorAction } from './actions';
+
+/** Maximum number of undo steps kept in memory */
+export const MAX_HISTORY = 100;
+
+/**
+ * Parts of the schematic that editor actions can change
+ */
+export type SchematicSnapshot = Pick<Schematic, 'components' | 'wires' | 'junctions' | 'directives' | 'netLabels' | 'subcircuits' | 'parameters' | 'models' | 'symbols'>;
+
+/**
+ * One undoable step
+ */
+export interface HistoryEntry {
+	label: string;              // Action that produced the step (e.g., "PLACE_COMPONENT")
+	snapshot: SchematicSnapshot;
+}
+
+/**
+ * Undo/redo stacks
+ */
+export interface HistoryState {
+	past: HistoryEntry[];
+	future: HistoryEntry[];
+	coalesceKey: string | null;  // Set while a multi-event gesture (e.g. a drag-move) is in progress
+}
+
+/**
+ * Create empty history
+ */
+export function emptyHistory(): HistoryState {
+	return { past: [], future: [], coalesceKey: null };
+}
+
+/**
+ * Deep copy the editable parts of a schematic
+ * JSON round-trip also unwraps Svelte state proxies
+ */
+export function takeSnapshot(schematic: Schematic): SchematicSnapshot {
+	return JSON.parse(JSON.stringify({
+		components: schematic.components,
+		wires: schematic.wires,
+		junctions: schematic.junctions,
+		directives: schematic.directives ?? [],
+		netLabels: schematic.netLabels ?? [],
+		subcircuits: schematic.subcircuits ?? [],
+		parameters: schematic.parameters ?? {},
+		models: schematic.models ?? [],
+		symbols: schematic.symbols ?? []
+	}));
+}
+
+/**
+ * Actions whose consecutive repeats collapse into one undo step
+ */
+function getCoalesceKey(action: EditorAction): string | null {
+	switch (action.type) {
+		case 'MOVE_SELECTED':
+			return 'move';
+		default:
+			return null;
+	}
+}
+
+/**
+ * Record the schematic state before a mutating action
+ */
+export function recordHistory(
+	history: HistoryState,
+	action: EditorAction,
+	schematic: Schematic
+): HistoryState {
+	const key = getCoalesceKey(action);
+	if (key !== null && key === history.coalesceKey) {
+		// Same gesture - the snapshot from its first event already covers it
+		return history;
+	}
+
+	const past = [...history.past, { label: action.type, snapshot: takeSnapshot(schematic) }];
+	if (past.length > MAX_HISTORY) {
+		past.splice(0, past.length - MAX_HISTORY);
+	}
+
+	return { past, future: [], coalesceKey: key };
+}
+
+/**
+ * End the current coalescing gesture so the next action starts a new step
+ */
+export function breakCoalescing(history: HistoryState): HistoryState {
+	if (history.coalesceKey === null) return history;
+	return { ...history, coalesceKey: null };
+}
+
+/**
+ * Pop the last step, pushing the current schematic onto the redo stack
+ * Returns null if there is nothing to undo
+ */
+export function undoHistory(
+	history: HistoryState,
+	schematic: Schematic
+): { history: HistoryState; snapshot: SchematicSnapshot } | null {
+	const entry = history.past[history.past.length - 1];
+	if (!entry) return null;
+
+	return {
+		history: {
+			past: history.past.slice(0, -1),
+			future: [...history.future, { label: entry.label, snapshot: takeSnapshot(schematic) }],
+			coalesceKey: null
+		},
+		snapshot: entry.snapshot
+	};
+}
+
+/**
+ * Re-apply the last undone step, pushing the current schematic onto the undo stack
+ * Returns null if there is nothing to redo
+ */
+export function redoHistory(
+	history: HistoryState,
+	schematic: Schematic
+): { history: HistoryState; snapshot: SchematicSnapshot } | null {
+	const entry = history.future[history.future.length - 1];
+	if (!entry) return null;
+
+	return {
+		history: {
+			past: [...history.past, { label: entry.label, snapshot: takeSnapshot(schematic) }],
+			future: history.future.slice(0, -1),
+			coalesceKey: null
+		},
+		snapshot: entry.snapshot
+	};
+}
+
+/** Check if there is a step to undo */
+export function canUndo(history: HistoryState): boolean {
+	return history.past.length > 0;
+}
+
+/** Check if there is a step to redo */
+export function canRedo(history: HistoryState): boolean {
+	return history.future.length > 0;
+}
@@ -7,4 +7,5 @@ export * from './actions';
 export * from './reducer';
 export * from './input-mapper';
 export * from './schematic-mutations';
+export * from './history';
 
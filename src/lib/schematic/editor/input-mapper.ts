@@ -2,7 +2,7 @@
  * Input mapper - translates DOM events into editor actions
  */
 
-import type { Point, Component, Wire, Junction, SpiceDirective } from '../types';
+import type { Point, Component, Wire, Junction, NetLabel, SpiceDirective } from '../types';
 import type { EditorState } from './state';
 import type { EditorAction } from './actions';
 import { MODE_SHORTCUTS, getModeName } from '../types';
@@ -16,6 +16,7 @@ export interface HitTestResult {
 	wire?: Wire;
 	junction?: Junction;
 	directive?: SpiceDirective;
+	netLabel?: NetLabel;
 }
 
 /**
@@ -54,6 +55,12 @@ export function mapMouseDown(
 					target: { directiveId: hitTest.directive.id },
 					additive: e.shiftKey
 				});
+			} else if (hitTest.netLabel) {
+				actions.push({
+					type: 'SELECT',
+					target: { netLabelId: hitTest.netLabel.id },
+					additive: e.shiftKey
+				});
 			} else if (hitTest.component) {
 				actions.push({
 					type: 'SELECT',
@@ -80,6 +87,12 @@ export function mapMouseDown(
 			return actions;
 		}
 
+		// Net label placing mode
+		if (modeType === 'placing-label') {
+			actions.push({ type: 'PLACE_NET_LABEL' });
+			return actions;
+		}
+
 		// Moving mode
 		if (modeType === 'moving') {
 			// Select item under cursor and start move
@@ -101,6 +114,12 @@ export function mapMouseDown(
 					target: { directiveId: hitTest.directive.id },
 					additive: e.shiftKey
 				});
+			} else if (hitTest.netLabel && !state.selection.netLabelIds.has(hitTest.netLabel.id)) {
+				actions.push({
+					type: 'SELECT',
+					target: { netLabelId: hitTest.netLabel.id },
+					additive: e.shiftKey
+				});
 			}
 			actions.push({ type: 'START_MOVE', startPos: snappedPos });
 			return actions;
@@ -268,6 +287,16 @@ export function mapKeyDown(
 		return actions;
 	}
 
+	// Ctrl+Z to undo, Ctrl+Y or Ctrl+Shift+Z to redo
+	if ((e.key === 'z' || e.key === 'Z') && (e.ctrlKey || e.metaKey)) {
+		actions.push({ type: e.shiftKey ? 'REDO' : 'UNDO' });
+		return actions;
+	}
+	if ((e.key === 'y' || e.key === 'Y') && (e.ctrlKey || e.metaKey)) {
+		actions.push({ type: 'REDO' });
+		return actions;
+	}
+
 	// Ctrl+R to rotate
 	if ((e.key === 'r' || e.key === 'R') && (e.ctrlKey || e.metaKey)) {
 		if (state.modeState.type === 'placing') {
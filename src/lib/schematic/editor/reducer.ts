@@ -3,12 +3,18 @@
  * Takes current state and action, returns new state
  */
 
-import type { Schematic, Component, Wire, Junction, Point } from '../types';
+import type { Schematic, Component, Wire, Junction, NetLabel, Point, SubcircuitDef, CustomSymbol, SpiceModel } from '../types';
 import type { EditorState, SelectionState, ModeState } from './state';
-import type { EditorAction, DeleteTarget } from './actions';
+import type { EditorAction, DeleteTarget, SchematicChanges } from './actions';
 import { emptySelection } from './state';
-import { COMPONENT_DEFS } from '../component-defs';
+import { isSchematicMutation } from './actions';
+import { type SchematicSnapshot, recordHistory, breakCoalescing, undoHistory, redoHistory, emptyHistory } from './history';
+import { COMPONENT_DEFS, getComponentDef } from '../component-defs';
+import { extractSubcircuit, findSubcircuit, getSubcircuitPins } from '../subcircuits';
+import { findSymbol, getSymbolPins } from '../symbols';
 import { COMPONENT_PREFIX } from '$lib/netlist/types';
+import { getLibraryDefinitions } from '$lib/netlist/netlist-generator';
+import { findUserSubcircuit } from '$lib/models/user-library';
 import { nextRotation } from '../component-renderer';
 import { getWireSegments, snapToGrid as snapToGridUtil } from '../canvas/geometry';
 
@@ -19,15 +25,25 @@ export type SchematicMutation =
 	| { type: 'ADD_COMPONENT'; component: Component }
 	| { type: 'ADD_WIRE'; wire: Wire }
 	| { type: 'ADD_JUNCTION'; junction: Junction }
+	| { type: 'ADD_NET_LABEL'; netLabel: NetLabel }
+	| { type: 'ADD_SUBCIRCUIT'; subcircuit: SubcircuitDef }
+	| { type: 'ADD_SYMBOL'; symbol: CustomSymbol }
+	| { type: 'ADD_MODEL'; model: SpiceModel }
 	| { type: 'DELETE_COMPONENTS'; ids: string[] }
 	| { type: 'DELETE_WIRES'; ids: string[] }
 	| { type: 'DELETE_JUNCTIONS'; ids: string[] }
 	| { type: 'DELETE_DIRECTIVES'; ids: string[] }
+	| { type: 'DELETE_NET_LABELS'; ids: string[] }
 	| { type: 'MOVE_COMPONENTS'; ids: string[]; delta: Point }
 	| { type: 'MOVE_WIRES'; ids: string[]; delta: Point }
 	| { type: 'MOVE_DIRECTIVES'; ids: string[]; delta: Point }
+	| { type: 'MOVE_NET_LABELS'; ids: string[]; delta: Point }
 	| { type: 'ROTATE_COMPONENTS'; ids: string[] }
-	| { type: 'MIRROR_COMPONENTS'; ids: string[] };
+	| { type: 'MIRROR_COMPONENTS'; ids: string[] }
+	| { type: 'UPDATE_COMPONENTS'; components: Component[] }
+	| { type: 'RENAME_NET_LABEL'; id: string; name: string }
+	| { type: 'UPDATE_SCHEMATIC'; changes: SchematicChanges }
+	| { type: 'RESTORE_SNAPSHOT'; snapshot: SchematicSnapshot };
 
 /**
  * Result of reducer - new state plus optional schematic mutations
@@ -39,11 +55,29 @@ export interface ReducerResult {
 
 /**
  * Main reducer function
+ * Records an undo step for every action that changes the schematic
  */
 export function editorReducer(
 	state: EditorState,
 	action: EditorAction,
 	schematic: Schematic
+): ReducerResult {
+	const result = reduceAction(state, action, schematic);
+
+	if (isSchematicMutation(action) && result.mutations.length > 0) {
+		return {
+			state: { ...result.state, history: recordHistory(state.history, action, schematic) },
+			mutations: result.mutations
+		};
+	}
+
+	return result;
+}
+
+function reduceAction(
+	state: EditorState,
+	action: EditorAction,
+	schematic: Schematic
 ): ReducerResult {
 	switch (action.type) {
 		// View actions
@@ -89,6 +123,12 @@ export function editorReducer(
 				mutations: []
 			};
 
+		case 'SET_VIEW':
+			return {
+				state: { ...state, view: { ...action.view } },
+				mutations: []
+			};
+
 		case 'TOGGLE_GRID':
 			return {
 				state: {
@@ -127,7 +167,40 @@ export function editorReducer(
 						type: 'placing',
 						componentType: action.componentType,
 						rotation: 0,
-						mirror: false
+						mirror: false,
+						value: action.value
+					},
+					selection: emptySelection()
+				},
+				mutations: []
+			};
+
+		case 'START_PLACING_SUBCIRCUIT':
+			return {
+				state: {
+					...state,
+					modeState: {
+						type: 'placing',
+						componentType: 'subckt',
+						rotation: 0,
+						mirror: false,
+						subcircuit: action.name
+					},
+					selection: emptySelection()
+				},
+				mutations: []
+			};
+
+		case 'START_PLACING_SYMBOL':
+			return {
+				state: {
+					...state,
+					modeState: {
+						type: 'placing',
+						componentType: 'custom',
+						rotation: 0,
+						mirror: false,
+						symbol: action.name
 					},
 					selection: emptySelection()
 				},
@@ -164,6 +237,24 @@ export function editorReducer(
 		case 'PLACE_COMPONENT':
 			return handlePlaceComponent(state, schematic);
 
+		// Net label actions
+		case 'START_PLACING_LABEL':
+			return {
+				state: {
+					...state,
+					modeState: { type: 'placing-label', name: action.name },
+					selection: emptySelection()
+				},
+				mutations: []
+			};
+
+		case 'PLACE_NET_LABEL':
+			return handlePlaceNetLabel(state);
+
+		// Subcircuit actions
+		case 'CREATE_SUBCIRCUIT':
+			return handleCreateSubcircuit(state, action.name, schematic);
+
 		// Selected item actions
 		case 'ROTATE_SELECTED':
 			return handleRotateSelected(state);
@@ -202,7 +293,8 @@ export function editorReducer(
 			return {
 				state: {
 					...state,
-					modeState: { type: 'moving', startPos: action.startPos }
+					modeState: { type: 'moving', startPos: action.startPos },
+					history: breakCoalescing(state.history)
 				},
 				mutations: []
 			};
@@ -214,7 +306,8 @@ export function editorReducer(
 			return {
 				state: {
 					...state,
-					modeState: { type: 'idle' }
+					modeState: { type: 'idle' },
+					history: breakCoalescing(state.history)
 				},
 				mutations: []
 			};
@@ -277,6 +370,32 @@ export function editorReducer(
 				}]
 			};
 
+		// Edits made in dialogs
+		case 'UPDATE_COMPONENTS':
+			return {
+				state,
+				mutations: [{ type: 'UPDATE_COMPONENTS', components: action.components }, ...copyLibraryDefinitions(action.components, schematic)]
+			};
+
+		case 'RENAME_NET_LABEL':
+			return { state, mutations: [{ type: 'RENAME_NET_LABEL', id: action.id, name: action.name }] };
+
+		case 'UPDATE_SCHEMATIC':
+			return { state, mutations: [{ type: 'UPDATE_SCHEMATIC', changes: action.changes }] };
+
+		// History
+		case 'UNDO':
+			return handleUndo(state, schematic);
+
+		case 'REDO':
+			return handleRedo(state, schematic);
+
+		case 'CLEAR_HISTORY':
+			return {
+				state: { ...state, history: emptyHistory() },
+				mutations: []
+			};
+
 		default:
 			return { state, mutations: [] };
 	}
@@ -303,7 +422,7 @@ function getModeStateForMode(mode: string): ModeState {
 
 function handleSelect(
 	state: EditorState,
-	target: { componentId?: string; wireId?: string; directiveId?: string },
+	target: { componentId?: string; wireId?: string; directiveId?: string; netLabelId?: string },
 	additive: boolean
 ): ReducerResult {
 	let newSelection: SelectionState;
@@ -312,7 +431,8 @@ function handleSelect(
 		newSelection = {
 			componentIds: new Set(state.selection.componentIds),
 			wireIds: new Set(state.selection.wireIds),
-			directiveIds: new Set(state.selection.directiveIds)
+			directiveIds: new Set(state.selection.directiveIds),
+			netLabelIds: new Set(state.selection.netLabelIds)
 		};
 		if (target.componentId) {
 			if (newSelection.componentIds.has(target.componentId)) {
@@ -335,11 +455,19 @@ function handleSelect(
 				newSelection.directiveIds.add(target.directiveId);
 			}
 		}
+		if (target.netLabelId) {
+			if (newSelection.netLabelIds.has(target.netLabelId)) {
+				newSelection.netLabelIds.delete(target.netLabelId);
+			} else {
+				newSelection.netLabelIds.add(target.netLabelId);
+			}
+		}
 	} else {
 		newSelection = {
 			componentIds: target.componentId ? new Set([target.componentId]) : new Set(),
 			wireIds: target.wireId ? new Set([target.wireId]) : new Set(),
-			directiveIds: target.directiveId ? new Set([target.directiveId]) : new Set()
+			directiveIds: target.directiveId ? new Set([target.directiveId]) : new Set(),
+			netLabelIds: target.netLabelId ? new Set([target.netLabelId]) : new Set()
 		};
 	}
 
@@ -374,16 +502,44 @@ function handleMirrorPlacing(state: EditorState): ReducerResult {
 	};
 }
 
-function handlePlaceComponent(state: EditorState, _schematic: Schematic): ReducerResult {
+function handlePlaceComponent(state: EditorState, schematic: Schematic): ReducerResult {
 	if (state.modeState.type !== 'placing') return { state, mutations: [] };
 
 	const { componentType, rotation, mirror } = state.modeState;
 	const def = COMPONENT_DEFS[componentType];
+
+	// Subcircuit blocks take their pins from the subcircuit's ports, custom symbols from the symbol;
+	// parts picked from the palette may preset the value (e.g. a model name)
+	let pins = def.pins.map((p, i) => ({ ...p, id: `${i}` }));
+	let value = state.modeState.value ?? getDefaultValue(componentType);
+	const attributes: Record<string, string> = {};
+	if (componentType === 'subckt') {
+		const name = state.modeState.subcircuit ?? '';
+		const subcircuit = findSubcircuit(schematic, name) ?? findUserSubcircuit(name);
+		if (!subcircuit) return { state, mutations: [] };
+		pins = getSubcircuitPins(subcircuit.ports);
+		value = subcircuit.name;
+	}
+	const symbol = componentType === 'custom' ? findSymbol(state.modeState.symbol ?? '') : undefined;
+	if (componentType === 'custom') {
+		if (!symbol) return { state, mutations: [] };
+		pins = getSymbolPins(symbol);
+		value = symbol.value;
+		attributes.Symbol = symbol.name;
+		attributes.Prefix = symbol.prefix;
+	}
+
 	const snapped = snapToGridUtil(state.schematicPos, state.grid.size, state.grid.snapEnabled);
 
-	// Generate instance name
-	const prefix = COMPONENT_PREFIX[componentType] || '';
-	const count = (state.componentCounters[componentType] || 0) + 1;
+	// Generate instance name (op-amps and comparators share XU<n>, apart from subcircuit blocks' X<n>;
+	// transformers are TX<n>, their windings are named after it; custom symbols count with the
+	// built-in type of their letter)
+	const amplifier = componentType === 'opamp' || componentType === 'comparator';
+	const counterKey = amplifier ? 'opamp'
+		: symbol ? (symbol.prefix === 'X' ? 'subckt' : Object.keys(COMPONENT_PREFIX).find(t => COMPONENT_PREFIX[t] === symbol.prefix) ?? symbol.prefix)
+		: componentType;
+	const prefix = amplifier ? 'XU' : componentType === 'transformer' ? 'TX' : symbol?.prefix ?? (COMPONENT_PREFIX[componentType] || '');
+	const count = (state.componentCounters[counterKey] || 0) + 1;
 	const instName = prefix ? `${prefix}${count}` : '';
 
 	const newComp: Component = {
@@ -395,20 +551,86 @@ function handlePlaceComponent(state: EditorState, _schematic: Schematic): Reduce
 		mirror,
 		attributes: {
 			InstName: instName,
-			Value: getDefaultValue(componentType)
+			Value: value,
+			...attributes
 		},
-		pins: def.pins.map((p, i) => ({ ...p, id: `${i}` }))
+		pins
 	};
 
+	// A library symbol is copied into the schematic with its first instance, so the file still draws it
+	const mutations: SchematicMutation[] = [{ type: 'ADD_COMPONENT', component: newComp }, ...copyLibraryDefinitions([newComp], schematic)];
+	if (symbol && !(schematic.symbols ?? []).some(s => s.name.toUpperCase() === symbol.name.toUpperCase())) {
+		mutations.push({ type: 'ADD_SYMBOL', symbol: JSON.parse(JSON.stringify(symbol)) });
+	}
+
 	return {
 		state: {
 			...state,
 			componentCounters: {
 				...state.componentCounters,
-				[componentType]: count
+				[counterKey]: count
 			}
 		},
-		mutations: [{ type: 'ADD_COMPONENT', component: newComp }]
+		mutations
+	};
+}
+
+/** Copy the imported subcircuits and models the components use into the schematic */
+function copyLibraryDefinitions(components: Component[], schematic: Schematic): SchematicMutation[] {
+	const { models, subcircuits } = getLibraryDefinitions(components, schematic);
+	return [
+		...subcircuits.map((subcircuit): SchematicMutation => ({ type: 'ADD_SUBCIRCUIT', subcircuit })),
+		...models.map((model): SchematicMutation => ({ type: 'ADD_MODEL', model }))
+	];
+}
+
+function handlePlaceNetLabel(state: EditorState): ReducerResult {
+	if (state.modeState.type !== 'placing-label') return { state, mutations: [] };
+
+	const snapped = snapToGridUtil(state.schematicPos, state.grid.size, state.grid.snapEnabled);
+
+	// Stay in label mode so the same name can be dropped on several nets
+	return {
+		state,
+		mutations: [{
+			type: 'ADD_NET_LABEL',
+			netLabel: { id: crypto.randomUUID(), name: state.modeState.name, x: snapped.x, y: snapped.y }
+		}]
+	};
+}
+
+function handleCreateSubcircuit(state: EditorState, name: string, schematic: Schematic): ReducerResult {
+	if (findSubcircuit(schematic, name)) return { state, mutations: [] };
+
+	const count = (state.componentCounters['subckt'] || 0) + 1;
+	const extraction = extractSubcircuit(schematic, state.selection, {
+		name,
+		instName: `X${count}`,
+		gridSize: state.grid.size
+	});
+	if (!extraction) return { state, mutations: [] };
+
+	const { subcircuit, block, removed, netLabels } = extraction;
+	const mutations: SchematicMutation[] = [
+		{ type: 'ADD_SUBCIRCUIT', subcircuit },
+		{ type: 'DELETE_COMPONENTS', ids: removed.componentIds },
+		{ type: 'DELETE_WIRES', ids: removed.wireIds },
+		{ type: 'DELETE_JUNCTIONS', ids: removed.junctionIds },
+		{ type: 'DELETE_NET_LABELS', ids: removed.netLabelIds },
+		{ type: 'ADD_COMPONENT', component: block },
+		...netLabels.map((netLabel): SchematicMutation => ({ type: 'ADD_NET_LABEL', netLabel }))
+	];
+
+	return {
+		state: {
+			...state,
+			componentCounters: {
+				...state.componentCounters,
+				subckt: count
+			},
+			selection: { ...emptySelection(), componentIds: new Set([block.id]) }
+		},
+		mutations
 	};
 }
 
@@ -420,8 +642,25 @@ function getDefaultValue(type: string): string {
 		case 'voltage': return 'DC 5';
 		case 'current': return 'DC 1m';
 		case 'diode': return 'D';
+		case 'zener': return 'BZX84C5V1';
+		case 'schottky': return '1N5817';
+		case 'led': return 'LED_RED';
+		case 'varactor': return 'MV2201';
 		case 'npn': case 'pnp': return '2N2222';
-		case 'nmos': case 'pmos': return 'NMOS';
+		case 'njf': return 'J2N5457';
+		case 'pjf': return 'J2N5460';
+		case 'nmos': return '2N7000';
+		case 'pmos': return 'BSS84';
+		case 'vcvs': case 'cccs': return '10';
+		case 'vccs': return '1m';
+		case 'ccvs': return '1k';
+		case 'behavioral': return 'V=1';
+		case 'opamp': case 'comparator': return 'ideal';
+		case 'transformer': return 'Lp=1m Ls=1m K=1';
+		case 'coupling': return 'L1 L2 1';
+		case 'vswitch': return 'SW_LOGIC';
+		case 'iswitch': return 'CSW_1MA';
+		case 'tline': return 'Z0=50 TD=1n';
 		default: return '';
 	}
 }
@@ -453,6 +692,9 @@ function handleDeleteSelected(state: EditorState): ReducerResult {
 	if (state.selection.directiveIds.size > 0) {
 		mutations.push({ type: 'DELETE_DIRECTIVES', ids: Array.from(state.selection.directiveIds) });
 	}
+	if (state.selection.netLabelIds.size > 0) {
+		mutations.push({ type: 'DELETE_NET_LABELS', ids: Array.from(state.selection.netLabelIds) });
+	}
 	return {
 		state: { ...state, selection: emptySelection() },
 		mutations
@@ -473,6 +715,9 @@ function handleDeleteAt(state: EditorState, target: DeleteTarget): ReducerResult
 	if (target.directiveIds.length > 0) {
 		mutations.push({ type: 'DELETE_DIRECTIVES', ids: target.directiveIds });
 	}
+	if (target.netLabelIds.length > 0) {
+		mutations.push({ type: 'DELETE_NET_LABELS', ids: target.netLabelIds });
+	}
 	return { state, mutations };
 }
 
@@ -547,6 +792,13 @@ function handleMoveSelected(state: EditorState, delta: Point): ReducerResult {
 			delta
 		});
 	}
+	if (state.selection.netLabelIds.size > 0) {
+		mutations.push({
+			type: 'MOVE_NET_LABELS',
+			ids: Array.from(state.selection.netLabelIds),
+			delta
+		});
+	}
 
 	// Update move start position for next delta calculation
 	if (state.modeState.type === 'moving') {
@@ -592,7 +844,7 @@ function handleDuplicateAt(
 			newComp.y = snappedY;
 
 			// Fix pins from component definition (in case they were corrupted)
-			const def = COMPONENT_DEFS[comp.type];
+			const def = getComponentDef(comp);
 			if (def) {
 				newComp.pins = def.pins.map((p, i) => ({ ...p, id: `${i}` }));
 			}
@@ -639,3 +891,21 @@ function handleDuplicateAt(
 
 	return { state, mutations: [] };
 }
+
+function handleUndo(state: EditorState, schematic: Schematic): ReducerResult {
+	const undone = undoHistory(state.history, schematic);
+	if (!undone) return { state, mutations: [] };
+	return {
+		state: { ...state, history: undone.history, selection: emptySelection() },
+		mutations: [{ type: 'RESTORE_SNAPSHOT', snapshot: undone.snapshot }]
+	};
+}
+
+function handleRedo(state: EditorState, schematic: Schematic): ReducerResult {
+	const redone = redoHistory(state.history, schematic);
+	if (!redone) return { state, mutations: [] };
+	return {
+		state: { ...state, history: redone.history, selection: emptySelection() },
+		mutations: [{ type: 'RESTORE_SNAPSHOT', snapshot: redone.snapshot }]
+	};
+}
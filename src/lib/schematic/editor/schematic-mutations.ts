@@ -33,6 +33,22 @@ function applyMutation(schematic: Schematic, mutation: SchematicMutation): void
 			schematic.junctions = [...schematic.junctions, mutation.junction];
 			break;
 
+		case 'ADD_NET_LABEL':
+			schematic.netLabels = [...(schematic.netLabels ?? []), mutation.netLabel];
+			break;
+
+		case 'ADD_SUBCIRCUIT':
+			schematic.subcircuits = [...(schematic.subcircuits ?? []), mutation.subcircuit];
+			break;
+
+		case 'ADD_MODEL':
+			schematic.models = [...(schematic.models ?? []), mutation.model];
+			break;
+
+		case 'ADD_SYMBOL':
+			schematic.symbols = [...(schematic.symbols ?? []), mutation.symbol];
+			break;
+
 		case 'DELETE_COMPONENTS':
 			schematic.components = schematic.components.filter(c => !mutation.ids.includes(c.id));
 			break;
@@ -51,6 +67,12 @@ function applyMutation(schematic: Schematic, mutation: SchematicMutation): void
 			}
 			break;
 
+		case 'DELETE_NET_LABELS':
+			if (schematic.netLabels) {
+				schematic.netLabels = schematic.netLabels.filter(l => !mutation.ids.includes(l.id));
+			}
+			break;
+
 		case 'MOVE_COMPONENTS':
 			for (const comp of schematic.components) {
 				if (mutation.ids.includes(comp.id)) {
@@ -83,6 +105,17 @@ function applyMutation(schematic: Schematic, mutation: SchematicMutation): void
 			}
 			break;
 
+		case 'MOVE_NET_LABELS':
+			if (schematic.netLabels) {
+				for (const label of schematic.netLabels) {
+					if (mutation.ids.includes(label.id)) {
+						label.x += mutation.delta.x;
+						label.y += mutation.delta.y;
+					}
+				}
+			}
+			break;
+
 		case 'ROTATE_COMPONENTS':
 			for (const comp of schematic.components) {
 				if (mutation.ids.includes(comp.id)) {
@@ -98,6 +131,35 @@ function applyMutation(schematic: Schematic, mutation: SchematicMutation): void
 				}
 			}
 			break;
+
+		case 'UPDATE_COMPONENTS':
+			schematic.components = schematic.components.map(c =>
+				mutation.components.find(u => u.id === c.id) ?? c
+			);
+			break;
+
+		case 'RENAME_NET_LABEL':
+			if (schematic.netLabels) {
+				schematic.netLabels = schematic.netLabels.map(l => (l.id === mutation.id ? { ...l, name: mutation.name } : l));
+			}
+			break;
+
+		case 'UPDATE_SCHEMATIC':
+			Object.assign(schematic, mutation.changes);
+			break;
+
+		case 'RESTORE_SNAPSHOT':
+			// Snapshot is already a deep copy owned by nobody else once popped from history
+			schematic.components = mutation.snapshot.components;
+			schematic.wires = mutation.snapshot.wires;
+			schematic.junctions = mutation.snapshot.junctions;
+			schematic.directives = mutation.snapshot.directives;
+			schematic.netLabels = mutation.snapshot.netLabels;
+			schematic.subcircuits = mutation.snapshot.subcircuits;
+			schematic.parameters = mutation.snapshot.parameters;
+			schematic.models = mutation.snapshot.models;
+			schematic.symbols = mutation.snapshot.symbols;
+			break;
 	}
 }
 
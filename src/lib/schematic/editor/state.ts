@@ -4,6 +4,7 @@
  */
 
 import type { Point, ViewTransform, GridSettings, ComponentType, Rotation, WireDirection } from '../types';
+import { type HistoryState, emptyHistory } from './history';
 
 /**
  * Selection state - tracks what is currently selected
@@ -12,6 +13,7 @@ export interface SelectionState {
 	componentIds: Set<string>;
 	wireIds: Set<string>;
 	directiveIds: Set<string>;
+	netLabelIds: Set<string>;
 }
 
 /**
@@ -22,7 +24,8 @@ export type ModeState =
 	| { type: 'idle' }
 	| { type: 'delete' }
 	| { type: 'duplicate' }
-	| { type: 'placing'; componentType: ComponentType; rotation: Rotation; mirror: boolean }
+	| { type: 'placing'; componentType: ComponentType; rotation: Rotation; mirror: boolean; value?: string; subcircuit?: string; symbol?: string }
+	| { type: 'placing-label'; name: string }
 	| { type: 'drawing-wire'; startPoint: Point; direction: WireDirection }
 	| { type: 'moving'; startPos: Point }
 	| { type: 'probing'; phase: 'idle' | 'holding-first'; firstNode?: Point; firstNodeName?: string; targetComponentId?: string }
@@ -48,6 +51,9 @@ export interface EditorState {
 
 	// Component instance counters for generating unique IDs
 	componentCounters: Record<string, number>;
+
+	// Undo/redo stacks
+	history: HistoryState;
 }
 
 /**
@@ -70,10 +76,12 @@ export function createInitialEditorState(): EditorState {
 		selection: {
 			componentIds: new Set(),
 			wireIds: new Set(),
-			directiveIds: new Set()
+			directiveIds: new Set(),
+			netLabelIds: new Set()
 		},
 		modeState: { type: 'idle' },
-		componentCounters: {}
+		componentCounters: {},
+		history: emptyHistory()
 	};
 }
 
@@ -90,6 +98,8 @@ export function getEditorMode(modeState: ModeState): string {
 			return 'duplicate';
 		case 'placing':
 			return 'place';
+		case 'placing-label':
+			return 'label';
 		case 'drawing-wire':
 			return 'wire';
 		case 'moving':
@@ -109,7 +119,8 @@ export function getEditorMode(modeState: ModeState): string {
 export function hasSelection(selection: SelectionState): boolean {
 	return selection.componentIds.size > 0 ||
 		selection.wireIds.size > 0 ||
-		selection.directiveIds.size > 0;
+		selection.directiveIds.size > 0 ||
+		selection.netLabelIds.size > 0;
 }
 
 /**
@@ -118,7 +129,8 @@ export function hasSelection(selection: SelectionState): boolean {
 export function getSelectionCount(selection: SelectionState): number {
 	return selection.componentIds.size +
 		selection.wireIds.size +
-		selection.directiveIds.size;
+		selection.directiveIds.size +
+		selection.netLabelIds.size;
 }
 
 /**
@@ -128,7 +140,8 @@ export function emptySelection(): SelectionState {
 	return {
 		componentIds: new Set(),
 		wireIds: new Set(),
-		directiveIds: new Set()
+		directiveIds: new Set(),
+		netLabelIds: new Set()
 	};
 }
 
@@ -7,3 +7,6 @@ export * from './types';
 export * from './component-defs';
 export * from './component-renderer';
 
+export * from './subcircuits';
+export * from './ltspice';
+export * from './symbols';
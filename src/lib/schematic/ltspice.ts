@@ -0,0 +1,370 @@
+/**
+ * LTSpice .asc schematic import and export
+ * Coordinates are kept 1:1 (LTSpice draws on a 16-unit grid). Imported components
+ * keep LTSpice pin positions in their own pins; components drawn here get short
+ * wires from the LTSpice pins to theirs when the two do not line up.
+ */
+
+import type { Component, ComponentType, DirectiveType, Point, Rotation, Schematic, SpiceDirective, Wire } from './types';
+import { COMPONENT_DEFS, hasBulkPin } from './component-defs';
+import { parseSubcircuitText } from './subcircuits';
+import { getComponentPinPositions, pointOnWire } from '$lib/netlist/connectivity';
+
+/** LTSpice symbol: pins at R0 relative to the SYMBOL position, and the component center */
+interface AscSymbol {
+	name: string;
+	type: ComponentType;
+	pins: { name: string; x: number; y: number }[];
+	center: Point;
+}
+
+/** Pins of diode.asy, shared by the zener, Schottky, LED and varactor symbols */
+const DIODE_PINS = [{ name: 'A', x: 16, y: 0 }, { name: 'K', x: 16, y: 64 }];
+
+const SYMBOLS: AscSymbol[] = [
+	{ name: 'res', type: 'resistor', pins: [{ name: '1', x: 16, y: 16 }, { name: '2', x: 16, y: 96 }], center: { x: 16, y: 56 } },
+	{ name: 'cap', type: 'capacitor', pins: [{ name: '1', x: 16, y: 0 }, { name: '2', x: 16, y: 64 }], center: { x: 16, y: 32 } },
+	{ name: 'ind', type: 'inductor', pins: [{ name: '1', x: 16, y: 16 }, { name: '2', x: 16, y: 96 }], center: { x: 16, y: 56 } },
+	{ name: 'voltage', type: 'voltage', pins: [{ name: '+', x: 0, y: 16 }, { name: '-', x: 0, y: 96 }], center: { x: 0, y: 56 } },
+	{ name: 'current', type: 'current', pins: [{ name: '+', x: 0, y: 0 }, { name: '-', x: 0, y: 80 }], center: { x: 0, y: 40 } },
+	{ name: 'diode', type: 'diode', pins: DIODE_PINS, center: { x: 16, y: 32 } },
+	{ name: 'zener', type: 'zener', pins: DIODE_PINS, center: { x: 16, y: 32 } },
+	{ name: 'schottky', type: 'schottky', pins: DIODE_PINS, center: { x: 16, y: 32 } },
+	{ name: 'led', type: 'led', pins: DIODE_PINS, center: { x: 16, y: 32 } },
+	{ name: 'varactor', type: 'varactor', pins: DIODE_PINS, center: { x: 16, y: 32 } },
+	{ name: 'npn', type: 'npn', pins: [{ name: 'B', x: 0, y: 48 }, { name: 'C', x: 64, y: 0 }, { name: 'E', x: 64, y: 96 }], center: { x: 48, y: 48 } },
+	{ name: 'pnp', type: 'pnp', pins: [{ name: 'B', x: 0, y: 48 }, { name: 'C', x: 64, y: 0 }, { name: 'E', x: 64, y: 96 }], center: { x: 48, y: 48 } },
+	{ name: 'njf', type: 'njf', pins: [{ name: 'G', x: 0, y: 64 }, { name: 'D', x: 48, y: 0 }, { name: 'S', x: 48, y: 96 }], center: { x: 32, y: 48 } },
+	{ name: 'pjf', type: 'pjf', pins: [{ name: 'G', x: 0, y: 64 }, { name: 'D', x: 48, y: 0 }, { name: 'S', x: 48, y: 96 }], center: { x: 32, y: 48 } },
+	{ name: 'nmos', type: 'nmos', pins: [{ name: 'G', x: 0, y: 80 }, { name: 'D', x: 48, y: 0 }, { name: 'S', x: 48, y: 96 }], center: { x: 32, y: 48 } },
+	{ name: 'pmos', type: 'pmos', pins: [{ name: 'G', x: 0, y: 80 }, { name: 'D', x: 48, y: 0 }, { name: 'S', x: 48, y: 96 }], center: { x: 32, y: 48 } },
+	// With the bulk pin
+	{ name: 'nmos4', type: 'nmos', pins: [{ name: 'G', x: 0, y: 80 }, { name: 'D', x: 48, y: 0 }, { name: 'S', x: 48, y: 96 }, { name: 'B', x: 48, y: 48 }], center: { x: 32, y: 48 } },
+	{ name: 'pmos4', type: 'pmos', pins: [{ name: 'G', x: 0, y: 80 }, { name: 'D', x: 48, y: 0 }, { name: 'S', x: 48, y: 96 }, { name: 'B', x: 48, y: 48 }], center: { x: 32, y: 48 } }
+];
+
+/** Symbol attributes LTSpice understands (others, like Tolerance, stay in WebSpice files) */
+const ASC_ATTRIBUTES = ['InstName', 'Value', 'Value2', 'SpiceModel', 'SpiceLine', 'SpiceLine2'];
+
+/** Spacing of directives added below the circuit on export */
+const TEXT_SPACING = 32;
+
+/** Result of reading an .asc file */
+export interface AscImport {
+	schematic: Schematic;
+	warnings: string[];  // Parts of the file the schematic cannot hold
+}
+
+/** Result of writing an .asc file */
+export interface AscExport {
+	text: string;
+	warnings: string[];  // Parts of the schematic LTSpice cannot hold
+}
+
+/** Mirror (flip X) then rotate clockwise, as components are drawn */
+function transform(p: Point, rotation: Rotation, mirror: boolean): Point {
+	const x = mirror ? -p.x : p.x;
+	const rad = (rotation * Math.PI) / 180;
+	const cos = Math.round(Math.cos(rad));
+	const sin = Math.round(Math.sin(rad));
+	return { x: x * cos - p.y * sin, y: x * sin + p.y * cos };
+}
+
+/** "R90" / "M270" to rotation and mirror */
+function parseOrientation(code: string): { rotation: Rotation; mirror: boolean } | null {
+	const m = code.match(/^([RM])(0|90|180|270)$/i);
+	if (!m) return null;
+	return { rotation: Number(m[2]) as Rotation, mirror: m[1].toUpperCase() === 'M' };
+}
+
+function directiveType(text: string): DirectiveType {
+	const keyword = text.toLowerCase().split(/\s+/)[0].slice(1);
+	if (keyword === 'measure') return 'meas';
+	const types: DirectiveType[] = ['tran', 'ac', 'dc', 'op', 'param', 'model', 'step', 'meas'];
+	return (types as string[]).includes(keyword) ? keyword as DirectiveType : 'other';
+}
+
+/**
+ * Read an LTSpice .asc schematic
+ * SYMBOL (with SYMATTR), WIRE, FLAG and TEXT directives are read. FLAG 0 becomes a
+ * ground symbol and other flags net labels, K statements coupling components.
+ * Comments, graphics and symbols without a WebSpice component are listed in warnings.
+ */
+export function parseAsc(text: string): AscImport {
+	const schematic: Schematic = {
+		components: [],
+		wires: [],
+		junctions: [],
+		netLabels: [],
+		directives: [],
+		parameters: {},
+		models: [],
+		subcircuits: []
+	};
+	const warnings: string[] = [];
+	let current: Component | null = null;
+	let skipped = false;  // SYMATTR lines of an unsupported symbol are ignored
+	let comments = 0;
+	let graphics = 0;
+
+	const lines = text.replace(/\r\n?/g, '\n').split('\n');
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		const keyword = line.split(/\s+/)[0]?.toUpperCase();
+		const fields = line.split(/\s+/).slice(1);
+
+		if (keyword === 'SYMBOL') {
+			current = null;
+			skipped = false;
+			const [name, x, y, orientation] = fields;
+			const symbolName = name?.toLowerCase() ?? '';
+			const symbol = SYMBOLS.find(s => s.name === symbolName);
+			const placement = parseOrientation(orientation ?? '');
+			if (!symbol || !placement) {
+				warnings.push(`Line ${i + 1}: symbol ${name ?? ''} has no WebSpice component and was left out`);
+				skipped = true;
+				continue;
+			}
+			const center = transform(symbol.center, placement.rotation, placement.mirror);
+			current = {
+				id: crypto.randomUUID(),
+				type: symbol.type,
+				x: Number(x) + center.x,
+				y: Number(y) + center.y,
+				...placement,
+				attributes: {},
+				pins: symbol.pins.map((p, n) => ({ id: `${n}`, name: p.name, x: p.x - symbol.center.x, y: p.y - symbol.center.y }))
+			};
+			schematic.components.push(current);
+		} else if (keyword === 'SYMATTR') {
+			const m = line.match(/^SYMATTR\s+(\S+)\s?(.*)$/i);
+			if (m && current) {
+				current.attributes[m[1]] = m[2];
+			} else if (!skipped) {
+				warnings.push(`Line ${i + 1}: SYMATTR outside a symbol`);
+			}
+		} else if (keyword === 'WIRE') {
+			const [x1, y1, x2, y2] = fields.map(Number);
+			schematic.wires.push({ id: crypto.randomUUID(), x1, y1, x2, y2 });
+		} else if (keyword === 'FLAG') {
+			const [x, y, name] = [Number(fields[0]), Number(fields[1]), fields[2] ?? ''];
+			if (name === '0') {
+				const pin = COMPONENT_DEFS.ground.pins[0];
+				schematic.components.push({
+					id: crypto.randomUUID(),
+					type: 'ground',
+					x: x - pin.x,
+					y: y - pin.y,
+					rotation: 0,
+					mirror: false,
+					attributes: {},
+					pins: COMPONENT_DEFS.ground.pins.map((p, n) => ({ ...p, id: `${n}` }))
+				});
+			} else {
+				schematic.netLabels!.push({ id: crypto.randomUUID(), name, x, y });
+			}
+		} else if (keyword === 'TEXT') {
+			const m = line.match(/^TEXT\s+(-?\d+)\s+(-?\d+)\s+\S+\s+\d+\s+([!;])(.*)$/i);
+			if (!m) continue;
+			if (m[3] === ';') {
+				comments++;
+				continue;
+			}
+			// Multi-line text is stored with literal \n separators; .subckt blocks become text subcircuits
+			let block = m[4].split('\\n').join('\n');
+			schematic.subcircuits!.push(...parseSubcircuitText(block));
+			block = block.replace(/^\s*\.subckt\b[\s\S]*?^\s*\.ends\b.*$/gim, '');
+			const texts = block.split('\n').map(t => t.trim()).filter(Boolean);
+			texts.forEach((t, n) => {
+				const [x, y] = [Number(m[1]), Number(m[2]) + n * TEXT_SPACING];
+				if (/^K\S*\s/i.test(t)) {
+					addCoupling(schematic, t, x, y);
+				} else {
+					addDirective(schematic, t, x, y, i + 1, warnings);
+				}
+			});
+		} else if (['LINE', 'RECTANGLE', 'CIRCLE', 'ARC'].includes(keyword)) {
+			graphics++;
+		}
+	}
+
+	if (comments > 0) warnings.push(`${comments} comment${comments === 1 ? '' : 's'} left out`);
+	if (graphics > 0) warnings.push(`${graphics} drawing${graphics === 1 ? '' : 's'} (lines, boxes, circles, arcs) left out`);
+
+	schematic.junctions = findJunctions(schematic.wires);
+	return { schematic, warnings };
+}
+
+/** Add a K statement (e.g. "K1 L1 L2 1") as a coupling component at the text's position */
+function addCoupling(schematic: Schematic, text: string, x: number, y: number): void {
+	const [name, ...value] = text.split(/\s+/);
+	schematic.components.push({
+		id: crypto.randomUUID(),
+		type: 'coupling',
+		x,
+		y,
+		rotation: 0,
+		mirror: false,
+		attributes: { InstName: name, Value: value.join(' ') },
+		pins: []
+	});
+}
+
+/** Add a TEXT directive; .param and .model also fill the schematic's parameters and models */
+function addDirective(schematic: Schematic, text: string, x: number, y: number, line: number, warnings: string[]): void {
+	const type = directiveType(text);
+	schematic.directives!.push({ id: crypto.randomUUID(), type, text, x, y });
+
+	if (type === 'param') {
+		for (const [, name, value] of text.slice(6).matchAll(/([A-Za-z_]\w*)\s*=\s*(\{[^}]*\}|'[^']*'|\S+)/g)) {
+			schematic.parameters![name] = value;
+		}
+	} else if (type === 'model') {
+		const m = text.match(/^\.model\s+(\S+)\s+([A-Za-z]+)\s*\(?(.*?)\)?\s*$/i);
+		if (m) schematic.models!.push({ name: m[1], type: m[2].toUpperCase(), params: m[3].trim() });
+	} else if (type === 'other') {
+		warnings.push(`Line ${line}: ${text.split(/\s+/)[0]} is kept on the schematic but not simulated`);
+	}
+}
+
+/**
+ * Junction dots where three or more wire ends meet, or a wire ends on the middle of
+ * another (LTSpice connects both without a dot in the file)
+ */
+function findJunctions(wires: Wire[]): Schematic['junctions'] {
+	const counts = new Map<string, number>();
+	for (const w of wires) {
+		for (const key of [`${w.x1},${w.y1}`, `${w.x2},${w.y2}`]) {
+			counts.set(key, (counts.get(key) ?? 0) + 1);
+		}
+	}
+	const isEnd = (p: Point, w: Wire) => (p.x === w.x1 && p.y === w.y1) || (p.x === w.x2 && p.y === w.y2);
+	return [...counts].filter(([key, n]) => {
+		const [x, y] = key.split(',').map(Number);
+		return n >= 3 || wires.some(w => pointOnWire({ x, y }, w) && !isEnd({ x, y }, w));
+	}).map(([key]) => {
+		const [x, y] = key.split(',').map(Number);
+		return { id: crypto.randomUUID(), x, y };
+	});
+}
+
+/**
+ * Write a schematic as an LTSpice .asc file
+ * Parameters, models and text subcircuits without a directive on the sheet are
+ * added as TEXT below the circuit, couplings as K statements. Subcircuit blocks
+ * have no LTSpice symbol and are listed in warnings.
+ */
+export function writeAsc(schematic: Schematic): AscExport {
+	const warnings: string[] = [];
+	const wires: string[] = schematic.wires.map(w => `WIRE ${w.x1} ${w.y1} ${w.x2} ${w.y2}`);
+	const flags: string[] = [];
+	const symbols: string[] = [];
+	const texts: string[] = [];
+	const points: Point[] = schematic.wires.flatMap(w => [{ x: w.x1, y: w.y1 }, { x: w.x2, y: w.y2 }]);
+
+	for (const label of schematic.netLabels ?? []) {
+		flags.push(`FLAG ${label.x} ${label.y} ${label.name}`);
+		points.push(label);
+	}
+
+	for (const comp of schematic.components) {
+		const pins = getComponentPinPositions(comp).map(p => ({ name: p.pin, x: Math.round(p.pos.x), y: Math.round(p.pos.y) }));
+		points.push(...pins);
+
+		if (comp.type === 'ground') {
+			for (const pin of pins) flags.push(`FLAG ${pin.x} ${pin.y} 0`);
+			continue;
+		}
+
+		// Couplings are K statements in LTSpice
+		if (comp.type === 'coupling') {
+			const at = { x: Math.round(comp.x), y: Math.round(comp.y) };
+			texts.push(`TEXT ${at.x} ${at.y} Left 2 !${comp.attributes['InstName'] || 'K1'} ${comp.attributes['Value'] || ''}`.trimEnd());
+			points.push(at);
+			continue;
+		}
+
+		// MOSFETs showing their bulk pin use the 4-terminal symbols (the 3-terminal ones come first)
+		const bulkSymbol = hasBulkPin(comp) ? `${comp.type}4` : null;
+		const symbol = SYMBOLS.find(s => bulkSymbol ? s.name === bulkSymbol : s.type === comp.type);
+		if (!symbol) {
+			warnings.push(`${comp.attributes['InstName'] || comp.id}: ${comp.type} blocks have no LTSpice symbol and were left out`);
+			continue;
+		}
+
+		// Symbol position that puts the symbol center on the component center
+		const center = transform(symbol.center, comp.rotation, comp.mirror);
+		const origin = { x: Math.round(comp.x - center.x), y: Math.round(comp.y - center.y) };
+		symbols.push(`SYMBOL ${symbol.name} ${origin.x} ${origin.y} ${comp.mirror ? 'M' : 'R'}${comp.rotation}`);
+		for (const name of ASC_ATTRIBUTES) {
+			if (comp.attributes[name] !== undefined) symbols.push(`SYMATTR ${name} ${comp.attributes[name]}`);
+		}
+
+		// Wire the LTSpice pins to this schematic's pins where they differ
+		for (const pin of symbol.pins) {
+			const offset = transform(pin, comp.rotation, comp.mirror);
+			const from = { x: origin.x + offset.x, y: origin.y + offset.y };
+			const to = pins.find(p => p.name === pin.name);
+			if (!to || (from.x === to.x && from.y === to.y)) continue;
+			if (from.x !== to.x && from.y !== to.y) {
+				wires.push(`WIRE ${from.x} ${from.y} ${to.x} ${from.y}`, `WIRE ${to.x} ${from.y} ${to.x} ${to.y}`);
+			} else {
+				wires.push(`WIRE ${from.x} ${from.y} ${to.x} ${to.y}`);
+			}
+		}
+	}
+
+	// Directives on the sheet, then whatever only lives in parameters, models and subcircuits
+	const directives = schematic.directives ?? [];
+	for (const d of directives) {
+		if (d.x !== undefined && d.y !== undefined) points.push({ x: d.x, y: d.y });
+	}
+	const extra: string[] = [];
+	const onSheet = (type: DirectiveType, pattern: RegExp) => directives.some(d => d.type === type && pattern.test(d.text));
+	for (const [name, value] of Object.entries(schematic.parameters ?? {})) {
+		if (!onSheet('param', new RegExp(`\\b${name}\\s*=`, 'i'))) extra.push(`.param ${name}=${value}`);
+	}
+	for (const model of schematic.models ?? []) {
+		if (!onSheet('model', new RegExp(`^\\.model\\s+${escapeRegExp(model.name)}\\s`, 'i'))) {
+			extra.push(`.model ${model.name} ${model.type}(${model.params})`);
+		}
+	}
+	for (const def of schematic.subcircuits ?? []) {
+		if (def.text) {
+			extra.push(def.text.trim().split(/\r?\n/).join('\\n'));
+		} else {
+			warnings.push(`Subcircuit ${def.name} is drawn as a schematic and was left out`);
+		}
+	}
+
+	const minX = points.length > 0 ? Math.min(...points.map(p => p.x)) : 0;
+	let nextY = points.length > 0 ? Math.max(...points.map(p => p.y)) + 2 * TEXT_SPACING : 0;
+	const placed: SpiceDirective[] = directives.map(d => {
+		if (d.x !== undefined && d.y !== undefined) return d;
+		const positioned = { ...d, x: minX, y: nextY };
+		nextY += TEXT_SPACING;
+		return positioned;
+	});
+	for (const d of placed) {
+		texts.push(`TEXT ${Math.round(d.x!)} ${Math.round(d.y!)} Left 2 !${d.text}`);
+	}
+	for (const text of extra) {
+		texts.push(`TEXT ${minX} ${nextY} Left 2 !${text}`);
+		nextY += TEXT_SPACING;
+	}
+
+	const maxX = points.length > 0 ? Math.max(...points.map(p => p.x)) : 0;
+	const lines = [
+		'Version 4',
+		`SHEET 1 ${Math.max(880, maxX + 2 * TEXT_SPACING)} ${Math.max(680, nextY)}`,
+		...wires,
+		...flags,
+		...symbols,
+		...texts
+	];
+	return { text: lines.join('\n') + '\n', warnings };
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,298 @@
+/**
+ * Subcircuit helpers
+ * Turning a selection into a .subckt block, parsing vendor .subckt text,
+ * and descending into / returning from a subcircuit's schematic
+ */
+
+import type { Schematic, Component, NetLabel, Point, SubcircuitDef, SubcircuitSchematic } from './types';
+import type { Net } from '$lib/netlist/types';
+import { analyzeConnectivity, getComponentPinPositions, pointOnWire } from '$lib/netlist/connectivity';
+import { getSubcircuitSymbol } from './component-defs';
+
+/** Items taken out of the parent schematic */
+export interface SubcircuitSelection {
+	componentIds: Set<string>;
+	wireIds: Set<string>;
+	netLabelIds: Set<string>;
+}
+
+/** Result of turning a selection into a subcircuit */
+export interface SubcircuitExtraction {
+	subcircuit: SubcircuitDef;
+	block: Component;                // Block instance that replaces the selection
+	removed: {
+		componentIds: string[];
+		wireIds: string[];
+		junctionIds: string[];
+		netLabelIds: string[];
+	};
+	netLabels: NetLabel[];           // Labels tying the block pins to the outside nets
+}
+
+/** Parent schematic kept while editing a subcircuit */
+export interface SubcircuitFrame {
+	name: string;
+	parent: Schematic;
+}
+
+/** Build the pins of a block instance for the given ports */
+export function getSubcircuitPins(ports: string[]): Component['pins'] {
+	return getSubcircuitSymbol(ports).pins.map((p, i) => ({ ...p, id: `${i}` }));
+}
+
+/** Find a subcircuit definition by name (case-insensitive, like SPICE) */
+export function findSubcircuit(schematic: Schematic, name: string): SubcircuitDef | undefined {
+	const key = name.toUpperCase();
+	return schematic.subcircuits?.find(s => s.name.toUpperCase() === key);
+}
+
+function pointKey(p: Point): string {
+	return `${Math.round(p.x)},${Math.round(p.y)}`;
+}
+
+/**
+ * Move the selected components, wires and net labels into a new subcircuit
+ * Every net that connects the selection to the rest of the schematic becomes a port.
+ * Ports keep the name of a net label already on the net, otherwise they are numbered P1, P2, ...
+ * Returns null if no component is selected.
+ */
+export function extractSubcircuit(
+	schematic: Schematic,
+	selection: SubcircuitSelection,
+	options: { name: string; instName: string; gridSize: number }
+): SubcircuitExtraction | null {
+	const components = schematic.components.filter(c => selection.componentIds.has(c.id));
+	if (components.length === 0) return null;
+
+	const wires = schematic.wires.filter(w => selection.wireIds.has(w.id));
+	const outerWires = schematic.wires.filter(w => !selection.wireIds.has(w.id));
+	const labels = (schematic.netLabels ?? []).filter(l => selection.netLabelIds.has(l.id));
+	const junctions = schematic.junctions.filter(j =>
+		wires.some(w => pointOnWire(j, w)) && !outerWires.some(w => pointOnWire(j, w))
+	);
+
+	// Sort every connection point into the inside or outside of the selection, per net
+	const connectivity = analyzeConnectivity(schematic);
+	const netAt = new Map<string, Net>();
+	for (const net of connectivity.nets) {
+		for (const p of net.points) {
+			netAt.set(pointKey(p), net);
+		}
+	}
+
+	interface NetUse {
+		inside: Point[];
+		outside: Point[];
+		outsideLabels: Set<string>;
+		hasInnerGround: boolean;
+	}
+	const uses = new Map<Net, NetUse>();
+	const use = (p: Point): NetUse | null => {
+		const net = netAt.get(pointKey(p));
+		if (!net) return null;
+		let entry = uses.get(net);
+		if (!entry) {
+			entry = { inside: [], outside: [], outsideLabels: new Set(), hasInnerGround: false };
+			uses.set(net, entry);
+		}
+		return entry;
+	};
+
+	for (const comp of schematic.components) {
+		const inside = selection.componentIds.has(comp.id);
+		for (const { pos } of getComponentPinPositions(comp)) {
+			const entry = use(pos);
+			if (!entry) continue;
+			(inside ? entry.inside : entry.outside).push(pos);
+			if (inside && comp.type === 'ground') entry.hasInnerGround = true;
+		}
+	}
+	for (const wire of schematic.wires) {
+		const inside = selection.wireIds.has(wire.id);
+		for (const p of [{ x: wire.x1, y: wire.y1 }, { x: wire.x2, y: wire.y2 }]) {
+			const entry = use(p);
+			if (entry) (inside ? entry.inside : entry.outside).push(p);
+		}
+	}
+	for (const label of schematic.netLabels ?? []) {
+		const entry = use(label);
+		if (!entry) continue;
+		if (selection.netLabelIds.has(label.id)) {
+			entry.inside.push(label);
+		} else {
+			entry.outside.push(label);
+			entry.outsideLabels.add(label.name.toLowerCase());
+		}
+	}
+
+	// Nets crossing the selection boundary become ports
+	const labelNames = new Set((schematic.netLabels ?? []).map(l => l.name.toLowerCase()));
+	const ports: string[] = [];
+	const outerNames: string[] = [];
+	const innerLabels: NetLabel[] = [];
+	const outerLabels: NetLabel[] = [];
+	let portCounter = 1;
+
+	for (const net of connectivity.nets) {
+		const entry = uses.get(net);
+		if (!entry || entry.inside.length === 0) continue;
+
+		if (net.isGround) {
+			// Ground is global - just make sure the inside still sees it
+			if (!entry.hasInnerGround) {
+				innerLabels.push({ id: crypto.randomUUID(), name: '0', x: entry.inside[0].x, y: entry.inside[0].y });
+			}
+			continue;
+		}
+		if (entry.outside.length === 0) continue;
+
+		const isNamed = labelNames.has(net.name.toLowerCase());
+		let port = net.name;
+		if (!isNamed) {
+			while (labelNames.has(`p${portCounter}`)) portCounter++;
+			port = `P${portCounter++}`;
+		}
+		const outerName = isNamed ? net.name : `${options.instName}_${port}`;
+
+		ports.push(port);
+		outerNames.push(outerName);
+		innerLabels.push({ id: crypto.randomUUID(), name: port, x: entry.inside[0].x, y: entry.inside[0].y });
+		if (!entry.outsideLabels.has(outerName.toLowerCase())) {
+			outerLabels.push({ id: crypto.randomUUID(), name: outerName, x: entry.outside[0].x, y: entry.outside[0].y });
+		}
+	}
+
+	// Block goes where the selected components were
+	const xs = components.map(c => c.x);
+	const ys = components.map(c => c.y);
+	const snap = (v: number) => Math.round(v / options.gridSize) * options.gridSize;
+	const block: Component = {
+		id: crypto.randomUUID(),
+		type: 'subckt',
+		x: snap((Math.min(...xs) + Math.max(...xs)) / 2),
+		y: snap((Math.min(...ys) + Math.max(...ys)) / 2),
+		rotation: 0,
+		mirror: false,
+		attributes: {
+			InstName: options.instName,
+			Value: options.name
+		},
+		pins: getSubcircuitPins(ports)
+	};
+	block.pins.forEach((pin, i) => {
+		outerLabels.push({ id: crypto.randomUUID(), name: outerNames[i], x: block.x + pin.x, y: block.y + pin.y });
+	});
+
+	const body: SubcircuitSchematic = JSON.parse(JSON.stringify({
+		components,
+		wires,
+		junctions,
+		netLabels: [...labels, ...innerLabels]
+	}));
+
+	return {
+		subcircuit: { name: options.name, ports, schematic: body },
+		block,
+		removed: {
+			componentIds: components.map(c => c.id),
+			wireIds: wires.map(w => w.id),
+			junctionIds: junctions.map(j => j.id),
+			netLabelIds: labels.map(l => l.id)
+		},
+		netLabels: outerLabels
+	};
+}
+
+/**
+ * Parse pasted SPICE text into subcircuit definitions
+ * Each ".subckt name port1 port2 ... [params]" through its matching ".ends" becomes one definition;
+ * the text is kept verbatim for the netlist. Lines outside .subckt blocks are ignored.
+ */
+export function parseSubcircuitText(text: string): SubcircuitDef[] {
+	const lines = text.replace(/\r\n?/g, '\n').split('\n');
+	const defs: SubcircuitDef[] = [];
+
+	let start = -1;
+	let depth = 0;
+	let header = '';
+
+	for (let i = 0; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		const lower = trimmed.toLowerCase();
+
+		if (lower.startsWith('.subckt')) {
+			if (depth === 0) {
+				start = i;
+				header = trimmed;
+				// Header may continue on '+' lines
+				for (let j = i + 1; j < lines.length && lines[j].trim().startsWith('+'); j++) {
+					header += ' ' + lines[j].trim().slice(1);
+				}
+			}
+			depth++;
+		} else if (lower.startsWith('.ends') && depth > 0) {
+			depth--;
+			if (depth === 0) {
+				const tokens = header.split(/\s+/);
+				const name = tokens[1];
+				const ports: string[] = [];
+				for (const token of tokens.slice(2)) {
+					if (token.includes('=') || token.toLowerCase() === 'params:') break;
+					ports.push(token);
+				}
+				if (name) {
+					defs.push({ name, ports, text: lines.slice(start, i + 1).join('\n') });
+				}
+			}
+		}
+	}
+
+	return defs;
+}
+
+/** Schematic to edit when descending into a subcircuit (shares the parent's library) */
+export function openSubcircuit(parent: Schematic, def: SubcircuitDef): Schematic {
+	const body: SubcircuitSchematic = JSON.parse(JSON.stringify(
+		def.schematic ?? { components: [], wires: [], junctions: [], netLabels: [] }
+	));
+	return {
+		components: body.components,
+		wires: body.wires,
+		junctions: body.junctions,
+		netLabels: body.netLabels ?? [],
+		directives: [],
+		parameters: parent.parameters,
+		models: parent.models,
+		subcircuits: parent.subcircuits,
+		symbols: parent.symbols
+	};
+}
+
+/** Store the edited subcircuit back into its parent and return the parent */
+export function closeSubcircuit(frame: SubcircuitFrame, current: Schematic): Schematic {
+	const body: SubcircuitSchematic = {
+		components: current.components,
+		wires: current.wires,
+		junctions: current.junctions,
+		netLabels: current.netLabels ?? []
+	};
+	const key = frame.name.toUpperCase();
+	return {
+		...frame.parent,
+		models: current.models,
+		parameters: current.parameters,
+		symbols: current.symbols,
+		subcircuits: (current.subcircuits ?? []).map(s =>
+			s.name.toUpperCase() === key ? { ...s, schematic: body } : s
+		)
+	};
+}
+
+/** Top-level schematic including the edits made in the open subcircuits */
+export function getRootSchematic(path: SubcircuitFrame[], current: Schematic): Schematic {
+	let schematic = current;
+	for (let i = path.length - 1; i >= 0; i--) {
+		schematic = closeSubcircuit(path[i], schematic);
+	}
+	return schematic;
+}
@@ -0,0 +1,126 @@
+/**
+ * Custom symbol library
+ * Symbols drawn in the symbol editor are stored in IndexedDB and kept in memory once
+ * loaded. A symbol is copied into the schematic when it is placed, so saved files and
+ * shared links still draw it; lookups try the open schematic's symbols first, then
+ * the library.
+ */
+
+import type { Component, CustomSymbol, SubcircuitDef } from './types';
+import { openDatabase, withStore } from '../storage/idb';
+
+const DB_NAME = 'webspice-symbols';
+const DB_VERSION = 1;
+const STORE = 'symbols';
+
+/**
+ * SPICE letters a symbol can stand for, with the number of nodes they take and the
+ * usual pin names in node order (X takes the subcircuit's ports)
+ */
+export const SYMBOL_PREFIXES: { prefix: string; label: string; nodes: number[]; pins: string[] }[] = [
+	{ prefix: 'R', label: 'Resistor', nodes: [2], pins: ['1', '2'] },
+	{ prefix: 'C', label: 'Capacitor', nodes: [2], pins: ['1', '2'] },
+	{ prefix: 'L', label: 'Inductor', nodes: [2], pins: ['1', '2'] },
+	{ prefix: 'D', label: 'Diode', nodes: [2], pins: ['A', 'K'] },
+	{ prefix: 'Q', label: 'BJT', nodes: [3, 4], pins: ['C', 'B', 'E', 'S'] },
+	{ prefix: 'J', label: 'JFET', nodes: [3], pins: ['D', 'G', 'S'] },
+	{ prefix: 'M', label: 'MOSFET', nodes: [4], pins: ['D', 'G', 'S', 'B'] },
+	{ prefix: 'V', label: 'Voltage source', nodes: [2], pins: ['+', '-'] },
+	{ prefix: 'I', label: 'Current source', nodes: [2], pins: ['+', '-'] },
+	{ prefix: 'B', label: 'Behavioral source', nodes: [2], pins: ['+', '-'] },
+	{ prefix: 'E', label: 'VCVS', nodes: [4], pins: ['+', '-', 'C+', 'C-'] },
+	{ prefix: 'G', label: 'VCCS', nodes: [4], pins: ['+', '-', 'C+', 'C-'] },
+	{ prefix: 'S', label: 'Voltage-controlled switch', nodes: [4], pins: ['+', '-', 'C+', 'C-'] },
+	{ prefix: 'T', label: 'Transmission line', nodes: [4], pins: ['A+', 'A-', 'B+', 'B-'] },
+	{ prefix: 'X', label: 'Subcircuit', nodes: [], pins: [] }
+];
+
+/** Library symbols, sorted by name */
+let library: CustomSymbol[] = [];
+
+/** Symbols of the open schematic, which win over library symbols of the same name */
+let schematicSymbols: CustomSymbol[] = [];
+
+/** Database of the symbol library */
+function openLibrary(): Promise<IDBDatabase> {
+	return openDatabase(DB_NAME, STORE, DB_VERSION);
+}
+
+function byName(a: CustomSymbol, b: CustomSymbol): number {
+	return a.name.localeCompare(b.name);
+}
+
+/** Load the library into memory (call once at startup) */
+export async function loadSymbolLibrary(): Promise<CustomSymbol[]> {
+	library = (await withStore<CustomSymbol[]>(await openLibrary(), 'readonly', store => store.getAll())).sort(byName);
+	return library;
+}
+
+/** Add or update a symbol (a plain object, not $state); it replaces a library symbol of the same name */
+export async function saveSymbol(symbol: CustomSymbol): Promise<void> {
+	const replaced = library.filter(s => s.id !== symbol.id && s.name.toUpperCase() === symbol.name.toUpperCase());
+	for (const old of replaced) {
+		await withStore(await openLibrary(), 'readwrite', store => store.delete(old.id));
+	}
+	await withStore(await openLibrary(), 'readwrite', store => store.put(symbol));
+	library = [...library.filter(s => s.id !== symbol.id && !replaced.includes(s)), symbol].sort(byName);
+}
+
+export async function deleteSymbol(id: string): Promise<void> {
+	await withStore(await openLibrary(), 'readwrite', store => store.delete(id));
+	library = library.filter(s => s.id !== id);
+}
+
+/** Library symbols, sorted by name */
+export function getSymbolLibrary(): CustomSymbol[] {
+	return library;
+}
+
+/** Use the symbols of the schematic being edited (they win over the library) */
+export function setSchematicSymbols(symbols: CustomSymbol[]): void {
+	schematicSymbols = symbols;
+}
+
+/** Find a symbol by name (case-insensitive), in the open schematic, then in the library */
+export function findSymbol(name: string): CustomSymbol | undefined {
+	const key = name.toUpperCase();
+	return schematicSymbols.find(s => s.name.toUpperCase() === key) ?? library.find(s => s.name.toUpperCase() === key);
+}
+
+/** Pins of a new instance of a symbol */
+export function getSymbolPins(symbol: CustomSymbol): Component['pins'] {
+	return symbol.pins.map((p, i) => ({ ...p, id: `${i}` }));
+}
+
+/**
+ * Check a symbol before it is saved
+ * @returns What is wrong with it, or null when it is valid
+ */
+export function checkSymbol(symbol: CustomSymbol, subcircuits: SubcircuitDef[]): string | null {
+	if (!/^[A-Za-z_][\w.-]*$/.test(symbol.name)) return 'The name must start with a letter and contain no spaces';
+	if (symbol.paths.length === 0) return 'Draw the symbol first';
+
+	const names = symbol.pins.map(p => p.name.trim());
+	if (names.some(name => !name)) return 'Every pin needs a name';
+	const duplicate = names.find((name, i) => names.findIndex(n => n.toUpperCase() === name.toUpperCase()) !== i);
+	if (duplicate) return `Pin ${duplicate} is used twice`;
+	const positions = symbol.pins.map(p => `${p.x},${p.y}`);
+	if (new Set(positions).size !== positions.length) return 'Two pins are on the same point';
+
+	const kind = SYMBOL_PREFIXES.find(k => k.prefix === symbol.prefix);
+	if (!kind) return `Unknown SPICE prefix ${symbol.prefix}`;
+	if (symbol.prefix === 'X') {
+		const name = symbol.subcircuit ?? '';
+		if (!name) return 'Choose the subcircuit the symbol stands for';
+		const def = subcircuits.find(d => d.name.toUpperCase() === name.toUpperCase());
+		if (!def) return `Subcircuit ${name} is not defined in the schematic or the model library`;
+		if (def.ports.length !== symbol.pins.length) {
+			return `${def.name} has ${def.ports.length} ports (${def.ports.join(' ')}), the symbol has ${symbol.pins.length} pins`;
+		}
+		return null;
+	}
+	if (!kind.nodes.includes(symbol.pins.length)) {
+		return `A ${kind.label.toLowerCase()} (${kind.prefix}) takes ${kind.nodes.join(' or ')} pins, the symbol has ${symbol.pins.length}`;
+	}
+	return null;
+}
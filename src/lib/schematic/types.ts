@@ -24,9 +24,9 @@ export interface GridSettings {
 
 /**
  * Editor modes - mapped from LTSpice F-keys to number keys
- * F2 -> 2: Component (handled by component shortcuts)
+ * F2 -> 2: Component (opens the component palette; letters place components directly)
  * F3 -> 3: Wire
- * F4 -> 4: Net label (future)
+ * F4 -> 4: Net label (asks for a name, then places it)
  * F5 -> 5: Delete
  * F6 -> 6: Duplicate
  * F7 -> 7: Move
@@ -39,6 +39,7 @@ export type EditorMode =
 	| 'duplicate' // 6: Duplicate selected items
 	| 'move'      // 7: Move selected items
 	| 'place'     // Placing a component
+	| 'label'     // 4: Placing a net label
 	| 'probe';    // P: Voltage/current probe mode
 
 /** Mouse/interaction state */
@@ -70,7 +71,18 @@ export type Rotation = 0 | 90 | 180 | 270;
 export type ComponentType = 
 	| 'resistor' | 'capacitor' | 'inductor'
 	| 'voltage' | 'current' | 'ground'
-	| 'diode' | 'npn' | 'pnp' | 'nmos' | 'pmos';
+	| 'diode' | 'npn' | 'pnp' | 'nmos' | 'pmos'
+	| 'zener' | 'schottky' | 'led' | 'varactor'  // Diode symbols, emitted as D lines
+	| 'njf' | 'pjf'                     // JFETs (G/D/S)
+	| 'vcvs' | 'vccs' | 'ccvs' | 'cccs'  // Dependent sources (E, G, H, F)
+	| 'behavioral'                      // B source with a V= or I= expression
+	| 'opamp' | 'comparator'            // Macro-models, emitted as X instances
+	| 'transformer'                     // Two coupled windings with dot notation
+	| 'coupling'                        // K statement coupling inductors by InstName (no pins)
+	| 'vswitch' | 'iswitch'             // S and W switches with a .model SW / CSW
+	| 'tline'                           // Lossless transmission line (T)
+	| 'subckt'                          // Block symbol for a subcircuit (X element)
+	| 'custom';  // Symbol drawn in the symbol editor (see CustomSymbol)
 
 /** Pin on a component */
 export interface Pin {
@@ -111,8 +123,72 @@ export interface Junction {
 	y: number;
 }
 
+/**
+ * Net label - names the net at the point where it is placed (LTSpice FLAG)
+ * Labels with the same name are connected even without a wire between them
+ */
+export interface NetLabel {
+	id: string;
+	name: string;      // Node name used in the netlist (e.g., "in", "out", "vdd")
+	x: number;         // Attachment point in schematic coordinates
+	y: number;
+}
+
+/** Editable contents of a subcircuit drawn as a schematic */
+export type SubcircuitSchematic = Pick<Schematic, 'components' | 'wires' | 'junctions' | 'netLabels'>;
+
+/**
+ * Subcircuit definition (.subckt)
+ * Either drawn as a schematic (ports are the nets carrying a net label with the port name)
+ * or pasted as vendor .subckt text that is emitted verbatim
+ */
+export interface SubcircuitDef {
+	name: string;                    // Subcircuit name used by X instances (e.g., "OPAMP1")
+	ports: string[];                 // Port names in .subckt order
+	schematic?: SubcircuitSchematic; // Drawn contents
+	text?: string;                   // Raw ".subckt ... .ends" block
+}
+
+/** Symbol drawing command (coordinates relative to the symbol origin, angles in degrees) */
+export type DrawCmd =
+	| { type: 'M'; x: number; y: number }      // Move to
+	| { type: 'L'; x: number; y: number }      // Line to
+	| { type: 'A'; cx: number; cy: number; r: number; start: number; end: number }  // Arc
+	| { type: 'C'; x: number; y: number; r: number }  // Circle
+	| { type: 'R'; x: number; y: number; w: number; h: number }  // Rectangle
+	| { type: 'T'; x: number; y: number; text: string; anchor?: 'start' | 'middle' | 'end' };  // Text
+
+/**
+ * Symbol drawn in the symbol editor
+ * Instances are 'custom' components whose Symbol attribute names the symbol and whose
+ * Prefix attribute is the SPICE letter. Their pins follow the symbol's pin order, which
+ * is the SPICE node order (the port order when bound to a subcircuit).
+ */
+export interface CustomSymbol {
+	id: string;
+	name: string;
+	paths: DrawCmd[][];
+	pins: { x: number; y: number; name: string }[];  // In SPICE node order
+	labelOffset: Point;
+	valueOffset: Point;
+	prefix: string;        // SPICE element letter (R, D, Q, ...; X for a subcircuit)
+	subcircuit?: string;   // Subcircuit the symbol stands for (prefix X)
+	value: string;         // Value of new instances (model name, subcircuit name, ...)
+}
+
+/** What to place: a component type with an optional preset value, a subcircuit block or a custom symbol */
+export interface PlacementSpec {
+	componentType: ComponentType;
+	value?: string;       // Value of new instances (the type's default when absent)
+	subcircuit?: string;  // Subcircuit of a block
+	symbol?: string;      // Custom symbol
+}
+
+/** Drag-and-drop data type of a PlacementSpec (as JSON) dropped on the schematic */
+export const PLACEMENT_DRAG_TYPE = 'application/x-webspice-part';
+
 /** SPICE directive types */
-export type DirectiveType = 'tran' | 'ac' | 'dc' | 'op' | 'param' | 'model' | 'other';
+export type DirectiveType = 'tran' | 'ac' | 'dc' | 'op' | 'param' | 'model' | 'step' | 'meas' | 'other';
 
 /** SPICE directive (simulation commands, parameters, models) */
 export interface SpiceDirective {
@@ -136,10 +212,14 @@ export interface Schematic {
 	components: Component[];
 	wires: Wire[];
 	junctions: Junction[];  // Explicit wire-to-wire connections
+	netLabels?: NetLabel[];  // User-placed net names
 	nodeLabels?: NodeLabel[];  // Node labels from netlist generation
+	operatingPoint?: OperatingPointAnnotation;  // Results of the last .op run
 	directives?: SpiceDirective[];  // SPICE directives (.tran, .ac, etc.)
 	parameters?: Record<string, string>;  // .param definitions (name -> value)
 	models?: SpiceModel[];  // .model definitions
+	subcircuits?: SubcircuitDef[];  // .subckt definitions used by 'subckt' blocks
+	symbols?: CustomSymbol[];  // Custom symbols used by 'custom' components, copied in when placed
 }
 
 /** Node label for display on schematic */
@@ -150,6 +230,19 @@ export interface NodeLabel {
 	isGround: boolean;
 }
 
+/** Operating point values for display on schematic */
+export interface OperatingPointAnnotation {
+	nodeVoltages: Record<string, number>;  // Net name -> voltage
+	components: Record<string, { current?: number; power?: number }>;  // Component id -> branch values
+}
+
+/** Items drawn highlighted on the canvas, e.g. the subject of a simulation error */
+export interface SchematicHighlight {
+	componentIds: string[];
+	wireIds: string[];
+	netLabelIds: string[];
+}
+
 /** Probe types */
 export type ProbeType = 'voltage' | 'current' | 'voltage-diff';
 
@@ -211,8 +304,13 @@ export function getModeName(mode: EditorMode): string {
 		case 'duplicate': return 'Duplicate (6)';
 		case 'move': return 'Move (7)';
 		case 'place': return 'Place';
+		case 'label': return 'Net Label (4)';
 		case 'probe': return 'Probe (P)';
 		default: return mode;
 	}
 }
 
+/** Check if a net label name is a valid SPICE node name (no whitespace, parentheses, commas or '=') */
+export function isValidNetLabelName(name: string): boolean {
+	return /^[^\s(),=]+$/.test(name);
+}
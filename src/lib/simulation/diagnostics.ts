@@ -0,0 +1,171 @@
+/**
+ * ngspice error diagnostics
+ * Turns the raw stderr lines of a run into diagnostics that name the offending
+ * instance or node, so they can be traced back to the schematic.
+ */
+
+import type { SimulationDiagnostic } from './types';
+
+/** Progress chatter and follow-up lines that carry no information of their own */
+const NOISE = [
+	/^note:/i,
+	/^using sparse/i,
+	/gmin stepping/i,
+	/source stepping/i,
+	/^simulation interrupted due to error/i,
+	/^any of the following steps may fail/i,
+	/^error: the operating point could not be simulated/i,
+	/^run simulation\(s\) aborted/i,
+	/^warning from checkvalid/i,
+	/^error during 'write'/i,
+	/^error: circuit not parsed/i,
+	/^in line no\. \d+ from file/i,
+	/^could not find a valid modelname/i,
+	/^warning: can't find the initialization file/i
+];
+
+/** Lines that mean the run produced no usable result */
+const FATAL = [
+	/circuit not parsed/i,
+	/simulation interrupted due to error/i,
+	/run simulation\(s\) aborted/i,
+	/^error:.*timestep too small/i
+];
+
+/** Check the error lines of a run for a failure ngspice does not report by throwing */
+export function isFatalError(lines: string[]): boolean {
+	return lines.some(line => FATAL.some(re => re.test(line.trim())));
+}
+
+/** First token of an instance line, e.g. "d1" from "  d1 b 0 nope" */
+function instanceOf(line: string | undefined): string | undefined {
+	const name = line?.trim().split(/\s+/)[0];
+	return name ? name.toLowerCase() : undefined;
+}
+
+/** Parse one message; next is the following line (ngspice often puts the instance line there) */
+function parseLine(line: string, next: string | undefined): SimulationDiagnostic | null {
+	let m: RegExpMatchArray | null;
+
+	if ((m = line.match(/singular matrix:\s*check node (\S+)/i))) {
+		const node = m[1].toLowerCase();
+		const branch = node.match(/^(.+)#branch$/);
+		if (branch) {
+			return {
+				severity: 'warning',
+				kind: 'voltage-loop',
+				message: `Singular matrix at ${branch[1].toUpperCase()}: loop of voltage sources or inductors, or a short across a source`,
+				instance: branch[1],
+				detail: line
+			};
+		}
+		return {
+			severity: 'warning',
+			kind: 'floating-node',
+			message: `Singular matrix at node ${node}: the node may be floating (no DC path to ground)`,
+			node,
+			detail: line
+		};
+	}
+
+	if (/timestep too small/i.test(line)) {
+		const node = line.match(/trouble with node "([^"]+)"/i)?.[1];
+		const instance = line.match(/trouble with \S+-instance (\S+)/i)?.[1];
+		const where = node ? ` at node ${node}` : instance ? ` at ${instance.toUpperCase()}` : '';
+		return {
+			severity: 'error',
+			kind: 'timestep-too-small',
+			message: `Timestep too small${where}: the simulation did not converge`,
+			node: node?.toLowerCase(),
+			instance: instance?.toLowerCase(),
+			detail: line
+		};
+	}
+
+	if ((m = line.match(/can't find model '([^']+)'/i))) {
+		const instance = instanceOf(next);
+		return {
+			severity: 'error',
+			kind: 'unknown-model',
+			message: `Unknown model "${m[1]}"${instance ? ` used by ${instance.toUpperCase()}` : ''}`,
+			instance,
+			detail: next ? `${line}\n${next.trim()}` : line
+		};
+	}
+
+	if ((m = line.match(/unknown subckt:\s*(.+)$/i))) {
+		const tokens = m[1].trim().split(/\s+/);
+		return {
+			severity: 'error',
+			kind: 'unknown-subcircuit',
+			message: `Unknown subcircuit "${tokens[tokens.length - 1]}" used by ${tokens[0].toUpperCase()}`,
+			instance: tokens[0].toLowerCase(),
+			detail: line
+		};
+	}
+
+	if ((m = line.match(/'([^']+)' is not a valid (\S+) instance line/i))) {
+		const instance = instanceOf(m[1]);
+		return {
+			severity: 'warning',
+			kind: 'invalid-instance',
+			message: `${instance?.toUpperCase()} is not a valid ${m[2]} and was ignored`,
+			instance,
+			detail: line
+		};
+	}
+
+	if (/^error on line/i.test(line)) {
+		const instance = instanceOf(next);
+		return {
+			severity: 'error',
+			kind: 'other',
+			message: `Error in ${instance?.toUpperCase() ?? 'netlist'}`,
+			instance,
+			detail: next ? `${line}\n${next.trim()}` : line
+		};
+	}
+
+	if (/^(error|warning)\b/i.test(line)) {
+		return {
+			severity: /^error/i.test(line) ? 'error' : 'warning',
+			kind: 'other',
+			message: line.replace(/^(error|warning)[:,]?\s*/i, ''),
+			detail: line
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Parse the stderr lines of a run
+ * Repeated messages (ngspice retries with gmin and source stepping) are
+ * reported once; an instance named by an earlier message is not reported again
+ * by its follow-up "Error on line" block.
+ */
+export function parseDiagnostics(lines: string[]): SimulationDiagnostic[] {
+	const diagnostics: SimulationDiagnostic[] = [];
+	const seen = new Set<string>();
+	const named = new Set<string>();
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (!line || NOISE.some(re => re.test(line))) continue;
+
+		const diagnostic = parseLine(line, lines[i + 1]);
+		if (!diagnostic) continue;
+		// The instance line that followed has been consumed
+		if (diagnostic.detail.includes('\n')) i++;
+
+		const key = `${diagnostic.kind}:${diagnostic.instance ?? diagnostic.node ?? diagnostic.message}`;
+		if (seen.has(key)) continue;
+		if (diagnostic.kind === 'other' && diagnostic.instance && named.has(diagnostic.instance)) continue;
+		seen.add(key);
+		if (diagnostic.instance) named.add(diagnostic.instance);
+
+		diagnostics.push(diagnostic);
+	}
+
+	return diagnostics;
+}
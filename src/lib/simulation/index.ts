@@ -4,13 +4,34 @@
  */
 
 import * as Comlink from 'comlink';
-import type { SimulationResult, SimulationStatus, SimulationWorkerAPI } from './types';
+import type { SimulationResult, SimulationStatus, SimulationProgress, SimulationDiagnostic, SimulationWorkerAPI } from './types';
 
-export type { SimulationResult, SimulationStatus, RealResult, ComplexResult, RealDataType, ComplexDataType } from './types';
+export type { SimulationResult, SimulationStatus, SimulationProgress, SimulationDiagnostic, DiagnosticKind, RealResult, ComplexResult, RealDataType, ComplexDataType, MeasurementResult, MeasureAnalysis } from './types';
+export { isMeasDirective, parseMeasDirective } from './measure';
+export { formatProgress } from './progress';
+
+/** Options for a single run */
+export interface RunOptions {
+	timeout?: number;       // Milliseconds; the run is aborted after this (0 or undefined = no limit)
+	onprogress?: (progress: SimulationProgress) => void;
+}
+
+/** Rejection of a run that was cancelled or timed out (the worker has been restarted) */
+export class SimulationAbortedError extends Error {
+	constructor(public readonly reason: 'cancelled' | 'timeout', message: string) {
+		super(message);
+		this.name = 'SimulationAbortedError';
+	}
+}
 
 let workerInstance: Worker | null = null;
 let apiInstance: Comlink.Remote<SimulationWorkerAPI> | null = null;
 
+// Rejects the run in flight, if any
+let abortRun: ((err: SimulationAbortedError) => void) | null = null;
+// Re-initialization of the worker after an aborted run
+let restarting: Promise<string> | null = null;
+
 /**
  * Get or create the simulation worker instance
  */
@@ -39,11 +60,65 @@ export async function initSimulation(): Promise<string> {
 /**
  * Run a simulation with the given netlist
  * @param netlist - SPICE netlist string
+ * @param options - Timeout and progress callback
  * @returns Simulation results
+ * @throws SimulationAbortedError if cancelled with cancelSimulation or timed out
  */
-export async function runSimulation(netlist: string): Promise<SimulationResult> {
+export async function runSimulation(netlist: string, options: RunOptions = {}): Promise<SimulationResult> {
+	if (restarting) {
+		await restarting;
+	}
 	const api = getWorker();
-	return await api.run(netlist);
+	const onprogress = options.onprogress ? Comlink.proxy(options.onprogress) : undefined;
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const aborted = new Promise<never>((_, reject) => {
+		abortRun = reject;
+		if (options.timeout && options.timeout > 0) {
+			const seconds = options.timeout / 1000;
+			timer = setTimeout(
+				() => reject(new SimulationAbortedError('timeout', `Simulation timed out after ${seconds} s`)),
+				options.timeout
+			);
+		}
+	});
+
+	try {
+		return await Promise.race([api.run(netlist, onprogress), aborted]);
+	} catch (err) {
+		if (err instanceof SimulationAbortedError) {
+			restartSimulation();
+		}
+		throw err;
+	} finally {
+		clearTimeout(timer);
+		abortRun = null;
+	}
+}
+
+/**
+ * Cancel the run in flight
+ * ngspice cannot be interrupted, so the worker is torn down and re-initialized.
+ * @returns false if nothing was running
+ */
+export function cancelSimulation(): boolean {
+	if (!abortRun) {
+		return false;
+	}
+	abortRun(new SimulationAbortedError('cancelled', 'Simulation cancelled'));
+	return true;
+}
+
+/** Replace the worker with a fresh, initialized one; the next run waits for it */
+function restartSimulation(): void {
+	terminateSimulation();
+	const ready = initSimulation();
+	restarting = ready;
+	ready.catch(() => undefined).finally(() => {
+		if (restarting === ready) {
+			restarting = null;
+		}
+	});
 }
 
 /**
@@ -62,6 +137,14 @@ export async function getSimulationErrors(): Promise<string[]> {
 	return await api.getErrors();
 }
 
+/**
+ * Get the last run's errors and warnings parsed into diagnostics
+ */
+export async function getSimulationDiagnostics(): Promise<SimulationDiagnostic[]> {
+	const api = getWorker();
+	return await api.getDiagnostics();
+}
+
 /**
  * Terminate the simulation worker
  * Call this when cleaning up
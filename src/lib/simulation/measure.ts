@@ -0,0 +1,344 @@
+/**
+ * .meas measurements
+ * ngspice evaluates .meas statements but only prints the values, so the worker
+ * reads them from its output. Statements ngspice rejects, and the BW3DB extension,
+ * are computed here from the result vectors instead.
+ */
+
+import type { SimulationResult, MeasurementResult, MeasureAnalysis } from './types';
+import { parseSpiceValue } from '../netlist/netlist-generator';
+
+/** Parsed .meas statement */
+export interface MeasureDirective {
+	analysis: MeasureAnalysis;
+	name: string;
+	text: string;           // Original line
+	tokens: string[];       // Everything after the name, with "key = value" joined to "key=value"
+}
+
+/** Functions only the TypeScript evaluator understands (removed before ngspice sees them) */
+const EVALUATOR_ONLY = ['BW3DB'];
+
+/** Check if a line is a .meas / .measure statement */
+export function isMeasDirective(line: string): boolean {
+	return /^\.meas(ure)?\b/i.test(line.trim());
+}
+
+/**
+ * Parse a .meas statement
+ * Format: .meas <tran|ac|dc> <name> <measurement...>
+ * Throws if the analysis type or name is missing.
+ */
+export function parseMeasDirective(text: string): MeasureDirective {
+	// Join "key = value" and drop spaces inside parentheses so tokens split cleanly
+	const normalized = text.trim()
+		.replace(/\s*=\s*/g, '=')
+		.replace(/\(([^)]*)\)/g, (_, inner: string) => `(${inner.replace(/\s+/g, '')})`);
+	const [, analysis, name, ...rest] = normalized.split(/\s+/);
+
+	const type = analysis?.toLowerCase();
+	if (type !== 'tran' && type !== 'ac' && type !== 'dc') {
+		throw new Error(`.meas needs an analysis type (tran, ac or dc): ${text.trim()}`);
+	}
+	if (!name || rest.length === 0) {
+		throw new Error(`.meas needs a name and a measurement: ${text.trim()}`);
+	}
+	return { analysis: type, name, text: text.trim(), tokens: rest };
+}
+
+/** All .meas statements of a netlist (malformed ones are skipped) */
+export function parseMeasDirectives(netlist: string): MeasureDirective[] {
+	const directives: MeasureDirective[] = [];
+	for (const line of netlist.split('\n')) {
+		if (!isMeasDirective(line)) continue;
+		try {
+			directives.push(parseMeasDirective(line));
+		} catch {
+			// Reported by ngspice
+		}
+	}
+	return directives;
+}
+
+/** Check if a statement can only be computed by the TypeScript evaluator */
+export function isEvaluatorOnly(directive: MeasureDirective): boolean {
+	return EVALUATOR_ONLY.includes(directive.tokens[0].toUpperCase());
+}
+
+/** Remove the evaluator-only statements so ngspice doesn't report them as failed */
+export function stripEvaluatorOnly(netlist: string): string {
+	return netlist.split('\n').filter(line => {
+		if (!isMeasDirective(line)) return true;
+		try {
+			return !isEvaluatorOnly(parseMeasDirective(line));
+		} catch {
+			return true;
+		}
+	}).join('\n');
+}
+
+/**
+ * Read measurement values from ngspice output
+ * Lines look like "vmax                =  4.966312e+00 at=  5.000001e-03"
+ */
+export function parseNgspiceMeasurements(output: string, names: string[]): Map<string, number> {
+	const wanted = new Set(names.map(n => n.toLowerCase()));
+	const values = new Map<string, number>();
+	for (const line of output.split('\n')) {
+		const match = line.match(/^\s*(\S+)\s+=\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/i);
+		if (match && wanted.has(match[1].toLowerCase())) {
+			values.set(match[1].toLowerCase(), parseFloat(match[2]));
+		}
+	}
+	return values;
+}
+
+/** Analysis that produced a result */
+export function getResultAnalysis(result: SimulationResult): MeasureAnalysis | 'op' {
+	if (result.dataType === 'complex') return 'ac';
+	if (/Plotname:\s*DC transfer characteristic/i.test(result.header)) return 'dc';
+	if (result.data.some(d => d.type === 'time')) return 'tran';
+	return 'op';
+}
+
+/** Scale and values of a vector expression like v(out), v(a,b), vdb(out) or i(v1) */
+interface Vector {
+	x: number[];
+	y: number[];
+}
+
+function resolveVector(expr: string, result: SimulationResult): Vector {
+	const scale = result.data[0];
+	if (!scale) throw new Error('empty result');
+	const x = result.dataType === 'complex'
+		? result.data[0].values.map(c => c.real)
+		: result.data[0].values;
+
+	const match = expr.match(/^(v|i)(db|m|p|r|i)?\((.+)\)$/i);
+	const kind = match ? match[1].toLowerCase() : '';
+	const form = match?.[2]?.toLowerCase() ?? '';
+	const args = match ? match[3].split(',') : [];
+
+	const find = (name: string) => {
+		const key = name.toLowerCase();
+		const index = result.data.findIndex(d => d.name.toLowerCase() === key);
+		if (index < 0) throw new Error(`vector ${name} not found`);
+		return index;
+	};
+
+	// Names of the vectors to subtract: v(a,b) = v(a) - v(b)
+	const names = match ? args.map(a => (a === '0' ? null : `${kind}(${a})`)) : [expr];
+
+	if (result.dataType === 'complex') {
+		const values = result.data[0].values.map(() => ({ real: 0, img: 0 }));
+		names.forEach((name, n) => {
+			if (!name) return;
+			const data = result.data[find(name)].values;
+			const sign = n === 0 ? 1 : -1;
+			data.forEach((c, i) => {
+				values[i].real += sign * c.real;
+				values[i].img += sign * c.img;
+			});
+		});
+		const y = values.map(c => {
+			switch (form) {
+				case 'db': return 20 * Math.log10(Math.max(Math.hypot(c.real, c.img), 1e-20));
+				case 'p': return Math.atan2(c.img, c.real);
+				case 'r': return c.real;
+				case 'i': return c.img;
+				default: return Math.hypot(c.real, c.img);
+			}
+		});
+		return { x, y };
+	}
+
+	const y = new Array(x.length).fill(0);
+	names.forEach((name, n) => {
+		if (!name) return;
+		const data = result.data[find(name)].values as number[];
+		const sign = n === 0 ? 1 : -1;
+		data.forEach((v, i) => { y[i] += sign * v; });
+	});
+	if (form === 'db') return { x, y: y.map(v => 20 * Math.log10(Math.max(Math.abs(v), 1e-20))) };
+	if (form === 'm') return { x, y: y.map(Math.abs) };
+	return { x, y };
+}
+
+/** Options of the form KEY=value, upper-cased keys */
+function readOptions(tokens: string[]): Map<string, string> {
+	const options = new Map<string, string>();
+	for (const token of tokens) {
+		const eq = token.indexOf('=');
+		if (eq > 0) options.set(token.slice(0, eq).toUpperCase(), token.slice(eq + 1));
+	}
+	return options;
+}
+
+/** Linear interpolation of y at x */
+function valueAt(v: Vector, at: number): number {
+	for (let i = 1; i < v.x.length; i++) {
+		if ((v.x[i - 1] <= at && at <= v.x[i]) || (v.x[i - 1] >= at && at >= v.x[i])) {
+			const span = v.x[i] - v.x[i - 1];
+			const r = span !== 0 ? (at - v.x[i - 1]) / span : 0;
+			return v.y[i - 1] + (v.y[i] - v.y[i - 1]) * r;
+		}
+	}
+	throw new Error(`${at} is outside the simulated range`);
+}
+
+/**
+ * X of the n-th crossing of a level
+ * RISE/FALL/CROSS select the edge (CROSS counts both), LAST takes the last one, TD skips early crossings.
+ */
+function crossingAt(v: Vector, level: number, options: Map<string, string>): number {
+	const td = options.has('TD') ? parseSpiceValue(options.get('TD')!) : -Infinity;
+	const edge = options.has('RISE') ? 'RISE' : options.has('FALL') ? 'FALL' : 'CROSS';
+	const count = options.get(edge) ?? '1';
+
+	const crossings: number[] = [];
+	for (let i = 1; i < v.x.length; i++) {
+		if (v.x[i] < td) continue;
+		const a = v.y[i - 1] - level;
+		const b = v.y[i] - level;
+		const rising = a < 0 && b >= 0;
+		const falling = a > 0 && b <= 0;
+		if ((edge === 'RISE' && rising) || (edge === 'FALL' && falling) || (edge === 'CROSS' && (rising || falling))) {
+			crossings.push(v.x[i - 1] + (v.x[i] - v.x[i - 1]) * (a / (a - b)));
+		}
+	}
+
+	const index = count.toUpperCase() === 'LAST' ? crossings.length - 1 : parseInt(count, 10) - 1;
+	if (index < 0 || index >= crossings.length) {
+		throw new Error(`${edge.toLowerCase()} ${count} of ${level} not found`);
+	}
+	return crossings[index];
+}
+
+/** Largest sample; folded, not spread, as a long transient has more samples than a call takes arguments */
+function maxOf(values: number[]): number {
+	return values.reduce((max, v) => Math.max(max, v), -Infinity);
+}
+
+/** Smallest sample */
+function minOf(values: number[]): number {
+	return values.reduce((min, v) => Math.min(min, v), Infinity);
+}
+
+/** Samples between FROM and TO */
+function windowOf(v: Vector, options: Map<string, string>): Vector {
+	const from = options.has('FROM') ? parseSpiceValue(options.get('FROM')!) : -Infinity;
+	const to = options.has('TO') ? parseSpiceValue(options.get('TO')!) : Infinity;
+	const x: number[] = [];
+	const y: number[] = [];
+	v.x.forEach((xi, i) => {
+		if (xi >= from && xi <= to) {
+			x.push(xi);
+			y.push(v.y[i]);
+		}
+	});
+	if (x.length === 0) throw new Error('no samples between FROM and TO');
+	return { x, y };
+}
+
+/** Trapezoidal integral */
+function integrate(v: Vector, square = false): number {
+	let sum = 0;
+	for (let i = 1; i < v.x.length; i++) {
+		const a = square ? v.y[i - 1] ** 2 : v.y[i - 1];
+		const b = square ? v.y[i] ** 2 : v.y[i];
+		sum += (a + b) / 2 * (v.x[i] - v.x[i - 1]);
+	}
+	return sum;
+}
+
+/** X where a TRIG or TARG clause fires: "<vec> VAL=<v> [RISE=n]" or "AT=<x>" */
+function clauseAt(tokens: string[], result: SimulationResult): number {
+	const options = readOptions(tokens);
+	if (options.has('AT')) return parseSpiceValue(options.get('AT')!);
+	if (!tokens[0] || !options.has('VAL')) throw new Error('TRIG/TARG needs a vector and VAL=');
+	return crossingAt(resolveVector(tokens[0], result), parseSpiceValue(options.get('VAL')!), options);
+}
+
+/**
+ * Evaluate one statement against a result
+ * Supported: TRIG ... TARG ..., MAX/MIN/AVG/RMS/PP/INTEG [FROM= TO=], FIND ... AT=,
+ * FIND ... WHEN ..., WHEN <vec>=<val>, and BW3DB <vec> (upper -3 dB frequency below the peak).
+ * Throws with a short reason if the measurement cannot be made.
+ */
+export function evaluateMeasurement(directive: MeasureDirective, result: SimulationResult): number {
+	const tokens = directive.tokens;
+	const keyword = tokens[0].toUpperCase();
+
+	switch (keyword) {
+		case 'TRIG': {
+			const targ = tokens.findIndex(t => t.toUpperCase() === 'TARG');
+			if (targ < 0) throw new Error('TRIG without TARG');
+			return clauseAt(tokens.slice(targ + 1), result) - clauseAt(tokens.slice(1, targ), result);
+		}
+		case 'MAX':
+		case 'MIN':
+		case 'AVG':
+		case 'RMS':
+		case 'PP':
+		case 'INTEG': {
+			const v = windowOf(resolveVector(tokens[1], result), readOptions(tokens.slice(2)));
+			const span = v.x[v.x.length - 1] - v.x[0];
+			switch (keyword) {
+				case 'MAX': return maxOf(v.y);
+				case 'MIN': return minOf(v.y);
+				case 'PP': return maxOf(v.y) - minOf(v.y);
+				case 'INTEG': return integrate(v);
+				case 'AVG': return span > 0 ? integrate(v) / span : v.y[0];
+				default: return span > 0 ? Math.sqrt(integrate(v, true) / span) : Math.abs(v.y[0]);
+			}
+		}
+		case 'FIND': {
+			const v = resolveVector(tokens[1], result);
+			const options = readOptions(tokens.slice(2));
+			if (options.has('AT')) return valueAt(v, parseSpiceValue(options.get('AT')!));
+			const when = tokens.findIndex(t => t.toUpperCase() === 'WHEN');
+			if (when < 0) throw new Error('FIND needs AT= or WHEN');
+			return valueAt(v, whenAt(tokens.slice(when + 1), result));
+		}
+		case 'WHEN':
+			return whenAt(tokens.slice(1), result);
+		case 'BW3DB': {
+			const v = resolveVector(tokens[1], result);
+			// vdb()/idb() vectors are in dB already
+			const db = /^(v|i)db\(/i.test(tokens[1]) ? v.y : v.y.map(m => 20 * Math.log10(Math.max(Math.abs(m), 1e-20)));
+			const peak = db.reduce((best, y, i) => (y > db[best] ? i : best), 0);
+			return crossingAt({ x: v.x.slice(peak), y: db.slice(peak) }, db[peak] - 3, new Map([['FALL', '1']]));
+		}
+		default:
+			throw new Error(`unsupported measurement ${tokens[0]}`);
+	}
+}
+
+/** X of "<vec>=<val> [RISE|FALL|CROSS=n] [TD=]" */
+function whenAt(tokens: string[], result: SimulationResult): number {
+	const condition = tokens[0]?.match(/^(.+\))=(.+)$/) ?? tokens[0]?.match(/^([^=]+)=(.+)$/);
+	if (!condition) throw new Error('WHEN needs <vector>=<value>');
+	return crossingAt(resolveVector(condition[1], result), parseSpiceValue(condition[2]), readOptions(tokens.slice(1)));
+}
+
+/**
+ * Measurements for a result: ngspice values where it printed one,
+ * the TypeScript evaluator for the rest. Statements for another analysis are left out.
+ */
+export function collectMeasurements(netlist: string, result: SimulationResult, ngspiceOutput: string): MeasurementResult[] {
+	const analysis = getResultAnalysis(result);
+	const directives = parseMeasDirectives(netlist).filter(d => d.analysis === analysis);
+	const reported = parseNgspiceMeasurements(ngspiceOutput, directives.map(d => d.name));
+
+	return directives.map(d => {
+		const value = reported.get(d.name.toLowerCase());
+		if (value !== undefined && !isEvaluatorOnly(d)) {
+			return { name: d.name, analysis: d.analysis, value, source: 'ngspice' };
+		}
+		try {
+			return { name: d.name, analysis: d.analysis, value: evaluateMeasurement(d, result), source: 'evaluator' };
+		} catch (err) {
+			return { name: d.name, analysis: d.analysis, value: null, source: 'evaluator', error: err instanceof Error ? err.message : String(err) };
+		}
+	});
+}
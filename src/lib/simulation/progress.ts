@@ -0,0 +1,51 @@
+/**
+ * Simulation progress
+ * The worker follows ngspice's console output while it runs and reports each phase
+ * as it starts: loading the netlist, running the analysis, writing the raw file.
+ * ngspice prints nothing while an analysis integrates, so there is no share of Tstop
+ * to report; the status bar shows the phase and the elapsed time.
+ */
+
+import type { SimulationProgress } from './types';
+
+const ANALYSIS_NAMES: Record<string, string> = {
+	tran: 'transient',
+	ac: 'AC',
+	dc: 'DC sweep',
+	op: 'operating point'
+};
+
+/** Find the analysis of a netlist ('tran', 'ac', 'dc', 'op'), or null */
+export function getNetlistAnalysis(netlist: string): string | null {
+	for (const raw of netlist.split('\n')) {
+		const analysis = raw.trim().toLowerCase().match(/^\.(tran|ac|dc|op)\b/)?.[1];
+		if (analysis) return analysis;
+	}
+	return null;
+}
+
+/** Phase that starts with a line of the engine's output, or null (the engine echoes the commands it feeds ngspice) */
+export function getOutputPhase(line: string): SimulationProgress['phase'] | null {
+	const command = line.match(/^cmd -> (\w+)/)?.[1];
+	if (command === 'source') return 'loading';
+	if (command === 'run') return 'running';
+	if (command === 'write') return 'writing';
+	return null;
+}
+
+/** Status bar text for a run in progress, e.g. "Running transient analysis... 2.4 s" */
+export function formatProgress(progress: SimulationProgress | null, elapsedMs: number): string {
+	const name = progress?.analysis ? `${ANALYSIS_NAMES[progress.analysis] ?? progress.analysis} analysis` : 'simulation';
+	const elapsed = `${(elapsedMs / 1000).toFixed(1)} s`;
+	switch (progress?.phase) {
+		case 'loading':
+			return `Loading netlist... ${elapsed}`;
+		case 'writing':
+			return `Writing ${name} results... ${elapsed}`;
+		case 'reading':
+		case 'done':
+			return `Reading ${name} results... ${elapsed}`;
+		default:
+			return `Running ${name}... ${elapsed}`;
+	}
+}
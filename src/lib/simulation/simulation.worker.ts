@@ -5,7 +5,30 @@
 
 import { Simulation } from 'eecircuit-engine';
 import * as Comlink from 'comlink';
-import type { SimulationResult, SimulationStatus, SimulationWorkerAPI } from './types';
+import type { SimulationResult, SimulationStatus, SimulationProgress, SimulationDiagnostic, SimulationWorkerAPI } from './types';
+import { collectMeasurements, stripEvaluatorOnly } from './measure';
+import { getNetlistAnalysis, getOutputPhase } from './progress';
+import { parseDiagnostics, isFatalError } from './diagnostics';
+
+/** eecircuit-engine version whose internals followOutput relies on */
+const ENGINE_VERSION = '1.5.8';
+
+/**
+ * Follow ngspice's console output as it is printed
+ * The engine has no output callback: every stdout line, and every command it feeds
+ * ngspice, passes through its debug logger `log_debug`, an instance field called
+ * synchronously during the run. That is not public API, so it is checked for first.
+ * @returns false (after logging why) if the engine has no such hook
+ */
+function followOutput(sim: Simulation, listener: (line: string) => void): boolean {
+	const engine = sim as unknown as { log_debug?: unknown };
+	if (typeof engine.log_debug !== 'function') {
+		console.error(`[SimWorker] eecircuit-engine has no log_debug hook (expected as of ${ENGINE_VERSION}); run phases will not be reported`);
+		return false;
+	}
+	engine.log_debug = (message: unknown) => listener(String(message));
+	return true;
+}
 
 class SimulationWorker implements SimulationWorkerAPI {
 	private sim: Simulation | null = null;
@@ -13,7 +36,10 @@ class SimulationWorker implements SimulationWorkerAPI {
 	private running = false;
 	private lastError: string | null = null;
 	private errors: string[] = [];
+	private diagnostics: SimulationDiagnostic[] = [];
 	private initInfo: string = '';
+	// Receives ngspice's output during a run
+	private outputListener: ((line: string) => void) | null = null;
 
 	async init(): Promise<string> {
 		if (this.initialized) {
@@ -22,6 +48,7 @@ class SimulationWorker implements SimulationWorkerAPI {
 
 		try {
 			this.sim = new Simulation();
+			followOutput(this.sim, (line) => this.outputListener?.(line));
 			await this.sim.start();
 			this.initialized = true;
 			this.lastError = null;
@@ -33,7 +60,14 @@ class SimulationWorker implements SimulationWorkerAPI {
 		}
 	}
 
-	async run(netlist: string): Promise<SimulationResult> {
+	/**
+	 * Run a netlist
+	 * onprogress is a Comlink proxy, released when the run ends. ngspice blocks this
+	 * thread while it runs, but the progress messages are posted as its output is printed,
+	 * so the page sees each phase as it starts. A hung run can only be stopped by
+	 * terminating the worker.
+	 */
+	async run(netlist: string, onprogress?: (progress: SimulationProgress) => void): Promise<SimulationResult> {
 		if (!this.sim || !this.initialized) {
 			throw new Error('Simulation engine not initialized. Call init() first.');
 		}
@@ -44,20 +78,36 @@ class SimulationWorker implements SimulationWorkerAPI {
 
 		this.running = true;
 		this.errors = [];
+		this.diagnostics = [];
 		this.lastError = null;
+		const analysis = getNetlistAnalysis(netlist);
+
+		let phase: SimulationProgress['phase'] | null = null;
+		this.outputListener = (line) => {
+			const next = getOutputPhase(line);
+			if (!next || next === phase) return;
+			phase = next;
+			onprogress?.({ phase, analysis });
+		};
 
 		try {
 			console.log('[SimWorker] Setting netlist...');
-			this.sim.setNetList(netlist);
+			this.sim.setNetList(stripEvaluatorOnly(netlist));
 
 			console.log('[SimWorker] Running simulation...');
 			const result = await this.sim.runSim();
 
 			// Check for errors
 			this.errors = this.sim.getError();
+			this.diagnostics = parseDiagnostics(this.errors);
 			if (this.errors.length > 0) {
 				console.warn('[SimWorker] Simulation warnings/errors:', this.errors);
 			}
+			// ngspice returns the previous run's vectors when a run fails
+			if (isFatalError(this.errors)) {
+				const first = this.diagnostics.find(d => d.severity === 'error');
+				throw new Error(first?.message ?? 'ngspice could not simulate the circuit');
+			}
 
 			console.log('[SimWorker] Simulation complete:', {
 				numVariables: result.numVariables,
@@ -65,13 +115,24 @@ class SimulationWorker implements SimulationWorkerAPI {
 				variableNames: result.variableNames
 			});
 
-			return result as SimulationResult;
+			onprogress?.({ phase: 'reading', analysis });
+
+			// ngspice only prints .meas values; read them back and evaluate the rest here
+			const simResult = result as SimulationResult;
+			simResult.measurements = collectMeasurements(netlist, simResult, this.sim.getInfo());
+			onprogress?.({ phase: 'done', analysis });
+
+			return simResult;
 		} catch (err) {
 			this.lastError = err instanceof Error ? err.message : String(err);
 			this.errors = this.sim.getError();
+			this.diagnostics = parseDiagnostics(this.errors);
 			throw err;
 		} finally {
 			this.running = false;
+			this.outputListener = null;
+			// Close the callback's MessagePort, or every run of a batch leaks one
+			(onprogress as Comlink.Remote<typeof onprogress> | undefined)?.[Comlink.releaseProxy]();
 		}
 	}
 
@@ -87,6 +148,10 @@ class SimulationWorker implements SimulationWorkerAPI {
 		return this.errors;
 	}
 
+	getDiagnostics(): SimulationDiagnostic[] {
+		return this.diagnostics;
+	}
+
 	getInitInfo(): string {
 		return this.initInfo;
 	}
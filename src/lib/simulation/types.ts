@@ -14,24 +14,62 @@ export interface ComplexDataType {
 	values: ComplexNumber[];
 }
 
+export type MeasureAnalysis = 'tran' | 'ac' | 'dc';
+
+/** Value of one .meas statement */
+export interface MeasurementResult {
+	name: string;
+	analysis: MeasureAnalysis;
+	value: number | null;   // null if the measurement failed
+	source: 'ngspice' | 'evaluator';
+	error?: string;
+}
+
 interface BaseResult {
 	header: string;
 	numVariables: number;
 	variableNames: string[];
 	numPoints: number;
+	measurements?: MeasurementResult[];  // .meas values, filled in by the worker
 }
 
 export interface RealResult extends BaseResult { dataType: 'real'; data: RealDataType[]; }
 export interface ComplexResult extends BaseResult { dataType: 'complex'; data: ComplexDataType[]; }
 export type SimulationResult = RealResult | ComplexResult;
 
+export type DiagnosticKind =
+	| 'floating-node'       // Singular matrix at a node
+	| 'voltage-loop'        // Singular matrix at a voltage source / inductor branch
+	| 'timestep-too-small'
+	| 'unknown-model'
+	| 'unknown-subcircuit'
+	| 'invalid-instance'
+	| 'other';
+
+/** ngspice message parsed into what went wrong and where */
+export interface SimulationDiagnostic {
+	severity: 'error' | 'warning';
+	kind: DiagnosticKind;
+	message: string;        // Readable summary
+	instance?: string;      // Offending instance as ngspice names it (lowercase, e.g. "d1" or "r.x1.r2")
+	node?: string;          // Offending node (lowercase)
+	detail: string;         // Original ngspice line(s)
+}
+
 export interface SimulationStatus { initialized: boolean; running: boolean; error: string | null; }
 
+/** Phase of a run, streamed from the worker as ngspice prints its output (ngspice reports no percentage) */
+export interface SimulationProgress {
+	phase: 'loading' | 'running' | 'writing' | 'reading' | 'done';
+	analysis: string | null;  // 'tran', 'ac', 'dc', 'op' or null if the netlist has none
+}
+
 export interface SimulationWorkerAPI {
 	init(): Promise<string>;
-	run(netlist: string): Promise<SimulationResult>;
+	run(netlist: string, onprogress?: (progress: SimulationProgress) => void): Promise<SimulationResult>;
 	getStatus(): SimulationStatus;
 	getErrors(): string[];
+	getDiagnostics(): SimulationDiagnostic[];
 	getInitInfo(): string;
 }
 
@@ -0,0 +1,49 @@
+/**
+ * IndexedDB helpers for the browser libraries (projects, imported models, custom symbols)
+ * Each library has a database of its own holding one object store keyed by `id`.
+ * A database is opened once and its connection shared.
+ */
+
+/** Thrown when a database cannot be opened or a request against it fails */
+export class StorageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'StorageError';
+	}
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/** Open a database, creating its object store on first use */
+export function openDatabase(name: string, store: string, version = 1): Promise<IDBDatabase> {
+	let connection = connections.get(name);
+	if (!connection) {
+		connection = new Promise((resolve, reject) => {
+			const request = indexedDB.open(name, version);
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(store)) {
+					request.result.createObjectStore(store, { keyPath: 'id' });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				connections.delete(name);
+				reject(request.error ?? new StorageError(`Could not open ${name}`));
+			};
+		});
+		connections.set(name, connection);
+	}
+	return connection;
+}
+
+/** Run one request against the database's store, settling once its transaction has committed */
+export function withStore<T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		const name = db.objectStoreNames[0];
+		const tx = db.transaction(name, mode);
+		const request = run(tx.objectStore(name));
+		tx.oncomplete = () => resolve(request.result);
+		tx.onerror = () => reject(tx.error ?? request.error ?? new StorageError(`${db.name} request failed`));
+		tx.onabort = () => reject(tx.error ?? new StorageError(`${db.name} request failed`));
+	});
+}
@@ -0,0 +1,5 @@
+/**
+ * Storage module exports
+ */
+
+export * from './idb';
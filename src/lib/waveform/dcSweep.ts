@@ -0,0 +1,127 @@
+/**
+ * DC sweep utilities for plotting .dc results against the swept variable
+ * Nested sweeps (two sources) are split into one curve per outer value
+ */
+
+import type { RealDataType } from '$lib/simulation/types';
+import type { TraceData, XAxisType } from './types';
+import { getTraceColor } from './types';
+import { parseSpiceValue, formatSpiceValue } from '$lib/netlist/netlist-generator';
+
+/** One swept variable of a .dc directive */
+export interface DcSweepVariable {
+	source: string;         // Source name (e.g., "V1"), or "TEMP"
+	start: number;
+	stop: number;
+	step: number;
+}
+
+/** Parsed .dc directive */
+export interface DcSweepSpec {
+	inner: DcSweepVariable;
+	outer?: DcSweepVariable;  // Second source of a nested sweep
+}
+
+/**
+ * Parse the .dc directive of a netlist
+ * Format: .dc SRC1 START1 STOP1 STEP1 [SRC2 START2 STOP2 STEP2]
+ */
+export function parseDcDirective(netlist: string): DcSweepSpec | null {
+	for (const line of netlist.split('\n')) {
+		const tokens = line.trim().split(/\s+/);
+		if (tokens[0]?.toLowerCase() !== '.dc' || tokens.length < 5) continue;
+
+		const readVariable = (i: number): DcSweepVariable | undefined => {
+			if (tokens.length < i + 4) return undefined;
+			return {
+				source: tokens[i],
+				start: parseSpiceValue(tokens[i + 1]),
+				stop: parseSpiceValue(tokens[i + 2]),
+				step: parseSpiceValue(tokens[i + 3])
+			};
+		};
+
+		const inner = readVariable(1);
+		if (!inner) return null;
+		return { inner, outer: readVariable(5) };
+	}
+	return null;
+}
+
+/**
+ * Check if a real simulation result is a DC sweep
+ * ngspice names the scale vector "v-sweep", "i-sweep", "temp-sweep" or "res-sweep"
+ */
+export function isDcSweep(header: string, data: RealDataType[]): boolean {
+	if (/Plotname:\s*DC transfer characteristic/i.test(header)) return true;
+	return data.length > 0 && /sweep\)?$/i.test(data[0].name);
+}
+
+/** X axis quantity for the swept source */
+export function getDcSweepAxisType(source: string): XAxisType {
+	const s = source.toLowerCase();
+	if (s === 'temp') return 'temperature';
+	if (s.startsWith('i')) return 'current';
+	if (s.startsWith('r')) return 'resistance';
+	return 'voltage';
+}
+
+/**
+ * Length of one inner sweep: the scale vector restarts for every outer value
+ */
+function getSegmentLength(scale: number[]): number {
+	if (scale.length < 3) return scale.length;
+	const first = scale[0];
+	const tolerance = Math.abs(scale[1] - scale[0]) * 1e-6;
+	for (let i = 2; i < scale.length; i++) {
+		if (Math.abs(scale[i] - first) <= tolerance) return i;
+	}
+	return scale.length;
+}
+
+/**
+ * Convert DC sweep data into traces against the swept variable
+ * The first vector is the sweep scale; for nested sweeps every other vector
+ * becomes one trace per outer value, labeled with that value
+ */
+export function processDcResults(data: RealDataType[], spec: DcSweepSpec | null): {
+	sweepData: number[];
+	traces: TraceData[];
+	curveCount: number;
+} {
+	if (data.length === 0) return { sweepData: [], traces: [], curveCount: 0 };
+
+	const scale = data[0].values;
+	const segmentLength = getSegmentLength(scale);
+	const curveCount = segmentLength > 0 ? Math.floor(scale.length / segmentLength) : 0;
+	const sweepData = scale.slice(0, segmentLength);
+
+	const traces: TraceData[] = [];
+	let colorIndex = 0;
+
+	for (const d of data.slice(1)) {
+		for (let k = 0; k < curveCount; k++) {
+			const values = d.values.slice(k * segmentLength, (k + 1) * segmentLength);
+			let id = d.name;
+			let name = d.name;
+			if (curveCount > 1) {
+				const outer = spec?.outer;
+				const label = outer
+					? `${outer.source}=${formatSpiceValue(outer.start + k * outer.step)}`
+					: `#${k + 1}`;
+				id = `${d.name}@${k}`;
+				name = `${d.name} ${label}`;
+			}
+			traces.push({
+				id,
+				name,
+				type: d.type,
+				values,
+				color: getTraceColor(colorIndex++),
+				visible: true
+			});
+		}
+	}
+
+	return { sweepData, traces, curveCount };
+}
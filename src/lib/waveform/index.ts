@@ -3,3 +3,5 @@ export { default as TabbedWaveformViewer } from './TabbedWaveformViewer.svelte';
 export * from './types';
 export * from './acAnalysis';
 
+export * from './dcSweep';
+export * from './stepSweep';
@@ -0,0 +1,53 @@
+/**
+ * Parametric sweep (.step) utilities
+ * Overlays the traces of every run as a family of curves, one color per step
+ */
+
+import type { RealDataType } from '$lib/simulation/types';
+import type { TraceData } from './types';
+import { getTraceColor } from './types';
+
+/** Traces of one step run together with the X values they were simulated at */
+export interface StepTraces {
+	label: string;          // Step label (e.g., "R=2.2k")
+	xData: number[];
+	traces: TraceData[];
+}
+
+/**
+ * Merge the runs of a .step into one trace list
+ * Runs keep their own X values (transient time points differ per run);
+ * every trace of step k gets step color k and the step label in its name.
+ */
+export function overlayStepTraces(steps: StepTraces[]): TraceData[] {
+	const traces: TraceData[] = [];
+	steps.forEach((step, k) => {
+		for (const trace of step.traces) {
+			traces.push({
+				...trace,
+				id: `${trace.id}@${step.label}`,
+				name: `${trace.name} ${step.label}`,
+				color: getTraceColor(k),
+				xValues: step.xData
+			});
+		}
+	});
+	return traces;
+}
+
+/**
+ * Plot stepped operating points against the parameter
+ * Each vector of the single-point runs becomes one trace over the step values.
+ */
+export function processSteppedOperatingPoints(runs: RealDataType[][]): TraceData[] {
+	if (runs.length === 0) return [];
+
+	return runs[0].map((d, i) => ({
+		id: d.name,
+		name: d.name,
+		type: d.type,
+		values: runs.map(run => run.find(r => r.name === d.name)?.values[0] ?? 0),
+		color: getTraceColor(i),
+		visible: true
+	}));
+}
@@ -9,6 +9,7 @@ export interface TraceData {
 	values: number[];
 	color: TraceColor;
 	visible: boolean;
+	xValues?: number[];     // Own X axis when it differs from the shared one (e.g., one .step run)
 }
 
 export interface TraceColor {
@@ -26,12 +27,16 @@ export interface Cursor {
 	color: string;
 }
 
+/** Quantity on the X axis - time (transient), frequency (AC), the swept variable of a DC sweep or a .step parameter */
+export type XAxisType = 'time' | 'frequency' | 'voltage' | 'current' | 'temperature' | 'resistance' | 'parameter';
+
 /** Waveform tab - contains traces for one panel */
 export interface WaveformTab {
 	id: string;
 	name: string;
 	traces: TraceData[];
-	xAxisType?: 'time' | 'frequency';
+	xAxisType?: XAxisType;
+	stepLabels?: string[];  // .step values, in the order of the per-step trace colors
 }
 
 const TRACE_COLORS: TraceColor[] = [